@@ -0,0 +1,110 @@
+import { useState } from "react";
+
+import { VariantPicker, type PickedVariant } from "./VariantPicker";
+
+// one saved cart line, with what its variant picker shows
+// (the edit page's loader looks the variants up, see getVariantSummaries)
+export type CartLineValue = {
+  variant: PickedVariant | null; // null = the QR's own product variant
+  quantity: number;
+};
+
+type CartLinesEditorProps = {
+  defaultLines: CartLineValue[];
+};
+
+// a row in the editor also needs a stable key for React
+type EditorLine = CartLineValue & { key: number };
+
+const cellInputStyle = {
+  padding: "8px 10px",
+  borderRadius: "6px",
+  border: "1px solid #d1d5db",
+  fontSize: "14px",
+};
+
+const smallButtonStyle = {
+  padding: "6px 10px",
+  borderRadius: "6px",
+  border: "1px solid #d1d5db",
+  backgroundColor: "white",
+  fontSize: "13px",
+  cursor: "pointer",
+};
+
+// --------------------
+// React component: cart line editor
+// --------------------
+
+// this editor lets merchants build a multi-item cart permalink
+// every row posts a "lineVariant" (packed like the main variant picker's value,
+// empty = the QR's own variant) + "lineQuantity" field, read in order by the action
+export function CartLinesEditor({ defaultLines }: CartLinesEditorProps) {
+  // start with the saved lines, or one empty row for a new QR
+  const [lines, setLines] = useState<EditorLine[]>(() =>
+    (defaultLines.length ? defaultLines : [{ variant: null, quantity: 1 }]).map(
+      (line, index) => ({ ...line, key: index }),
+    ),
+  );
+  const [nextKey, setNextKey] = useState(lines.length);
+
+  function addLine() {
+    setLines([...lines, { variant: null, quantity: 1, key: nextKey }]);
+    setNextKey(nextKey + 1);
+  }
+
+  function removeLine(key: number) {
+    setLines(lines.filter((line) => line.key !== key));
+  }
+
+  return (
+    <div style={{ marginBottom: "16px" }}>
+      <p style={{ fontSize: "14px", marginBottom: "4px" }}>Cart lines</p>
+
+      {lines.map((line, index) => (
+        <div
+          key={line.key}
+          style={{
+            display: "flex",
+            alignItems: "flex-end",
+            gap: "8px",
+            marginBottom: "8px",
+          }}
+        >
+          <div style={{ flex: 1 }}>
+            <VariantPicker
+              name="lineVariant"
+              label={`Line ${index + 1}`}
+              defaultValue={line.variant}
+              placeholder="Same as the product variant above"
+            />
+          </div>
+          <input
+            name="lineQuantity"
+            type="number"
+            min={1}
+            max={999}
+            aria-label={`Cart line ${index + 1} quantity`}
+            defaultValue={line.quantity}
+            style={{ ...cellInputStyle, width: "80px" }}
+          />
+          <button
+            type="button"
+            onClick={() => removeLine(line.key)}
+            disabled={lines.length === 1}
+            style={smallButtonStyle}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <button type="button" onClick={addLine} style={smallButtonStyle}>
+        + Add line
+      </button>
+      <p style={{ fontSize: "12px", color: "#6b7280", marginTop: "4px" }}>
+        Every line is added to the cart at its quantity when the QR is scanned.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useAppBridge } from "@shopify/app-bridge-react";
+
+// a collection shown before anything is picked (e.g. the saved ones on the edit page)
+export type PickedCollection = {
+  id: string; // gid://shopify/Collection/...
+  title: string;
+};
+
+type CollectionPickerProps = {
+  name: string; // form field repeated once per picked collection id
+  label: string; // visible field label
+  defaultValue?: PickedCollection[];
+};
+
+// --------------------
+// React component: collection picker
+// --------------------
+
+// like ProductPicker, but several collections can be picked at once
+// every picked collection id is posted as its own hidden field
+export function CollectionPicker({
+  name,
+  label,
+  defaultValue = [],
+}: CollectionPickerProps) {
+  const shopify = useAppBridge();
+  const [picked, setPicked] = useState<PickedCollection[]>(defaultValue);
+
+  async function openPicker() {
+    const selection = await shopify.resourcePicker({
+      type: "collection",
+      action: "select",
+      multiple: true,
+      // reopen on the current picks so the merchant can untick some
+      selectionIds: picked.map((collection) => ({ id: collection.id })),
+    });
+
+    // undefined when the merchant closed the picker without choosing
+    if (!selection) {
+      return;
+    }
+
+    setPicked(
+      selection.map((collection) => ({
+        id: collection.id,
+        title: collection.title,
+      })),
+    );
+  }
+
+  return (
+    <div>
+      <span style={{ display: "block", fontSize: "14px", marginBottom: "4px" }}>
+        {label}
+      </span>
+
+      {picked.map((collection) => (
+        <input
+          key={collection.id}
+          type="hidden"
+          name={name}
+          value={collection.id}
+        />
+      ))}
+
+      <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+        <span
+          style={{
+            flex: 1,
+            padding: "8px 10px",
+            borderRadius: "6px",
+            border: "1px solid #d1d5db",
+            fontSize: "14px",
+            color: picked.length ? "#111827" : "#6b7280",
+          }}
+        >
+          {picked.length
+            ? picked.map((collection) => collection.title).join(", ")
+            : "No collections selected"}
+        </span>
+        {picked.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setPicked([])}
+            style={{
+              padding: "8px 14px",
+              borderRadius: "6px",
+              border: "1px solid #d1d5db",
+              backgroundColor: "white",
+              fontSize: "14px",
+              cursor: "pointer",
+            }}
+          >
+            Clear
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={openPicker}
+          style={{
+            padding: "8px 14px",
+            borderRadius: "6px",
+            border: "1px solid #d1d5db",
+            backgroundColor: "white",
+            fontSize: "14px",
+            cursor: "pointer",
+          }}
+        >
+          {picked.length ? "Change" : "Select collections"}
+        </button>
+      </div>
+    </div>
+  );
+}
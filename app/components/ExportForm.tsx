@@ -0,0 +1,100 @@
+import { useState, type FormEvent } from "react";
+
+const selectStyle = {
+  padding: "8px 10px",
+  borderRadius: "6px",
+  border: "1px solid #d1d5db",
+  fontSize: "14px",
+};
+
+// --------------------
+// React component: export form
+// --------------------
+
+// this form downloads the shop's QR codes (or raw scan events) from /app/export
+// the export is a resource route, so we fetch it and save the blob
+// (App Bridge adds the session token to fetch calls for us)
+export function ExportForm() {
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function downloadExport(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const formData = new FormData(event.currentTarget);
+      const params = new URLSearchParams({
+        data: String(formData.get("data")),
+        format: String(formData.get("format")),
+      });
+
+      const response = await fetch(`/app/export?${params}`);
+
+      if (!response.ok) {
+        setError(await response.text());
+        return;
+      }
+
+      // the server picks the file name (it includes today's date)
+      const disposition = response.headers.get("Content-Disposition") ?? "";
+      const filename =
+        /filename="([^"]+)"/.exec(disposition)?.[1] ??
+        `export.${params.get("format")}`;
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  return (
+    <form
+      onSubmit={downloadExport}
+      style={{ display: "flex", gap: "8px", alignItems: "center" }}
+    >
+      <select
+        name="data"
+        defaultValue="qrcodes"
+        aria-label="What to export"
+        style={selectStyle}
+      >
+        <option value="qrcodes">QR codes</option>
+        <option value="scans">Raw scan events</option>
+      </select>
+      <select
+        name="format"
+        defaultValue="csv"
+        aria-label="File format"
+        style={selectStyle}
+      >
+        <option value="csv">CSV</option>
+        <option value="json">JSON</option>
+      </select>
+      <button
+        type="submit"
+        disabled={isExporting}
+        style={{
+          padding: "8px 14px",
+          borderRadius: "6px",
+          border: "1px solid #d1d5db",
+          backgroundColor: "white",
+          color: "#111827",
+          fontSize: "14px",
+          cursor: isExporting ? "default" : "pointer",
+        }}
+      >
+        {isExporting ? "Exporting..." : "Export"}
+      </button>
+      {error && (
+        <span style={{ fontSize: "13px", color: "#dc2626" }}>{error}</span>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,162 @@
+import { Form } from "react-router";
+
+import { ProductPicker } from "./ProductPicker";
+
+// --------------------
+// shared types
+// --------------------
+
+// one row as getProductDiscount returns it
+export type ProductDiscount = {
+  id: string;
+  title: string;
+  percentage: number;
+  productId: string;
+  productTitle: string | null; // null when the product was deleted in Shopify
+};
+
+// the inputs validateProductDiscountForm can reject, plus "form" for sync errors
+type ProductDiscountFormField = "form" | "title" | "productId" | "percentage";
+
+export type ProductDiscountFormErrors = Partial<
+  Record<ProductDiscountFormField, string>
+>;
+
+type ProductDiscountFormProps = {
+  defaultValues?: ProductDiscount; // the saved row on the edit page
+  errors?: ProductDiscountFormErrors;
+  submitLabel: string;
+  submittingLabel: string;
+  isSubmitting: boolean;
+};
+
+const inputStyle = {
+  width: "100%",
+  padding: "8px 10px",
+  borderRadius: "6px",
+  border: "1px solid #d1d5db",
+  fontSize: "14px",
+};
+
+const labelStyle = {
+  display: "block",
+  fontSize: "14px",
+  marginBottom: "4px",
+};
+
+const helpTextStyle = {
+  fontSize: "12px",
+  color: "#6b7280",
+  marginTop: "4px",
+};
+
+// small red message under a field (renders nothing when there is no error)
+function FieldError({ message }: { message?: string }) {
+  if (!message) {
+    return null;
+  }
+
+  return (
+    <p role="alert" style={{ ...helpTextStyle, color: "#dc2626" }}>
+      {message}
+    </p>
+  );
+}
+
+// --------------------
+// React component: product discount form
+// --------------------
+
+// shared by /app/product-discounts/new and /app/product-discounts/:id
+export function ProductDiscountForm({
+  defaultValues,
+  errors = {},
+  submitLabel,
+  submittingLabel,
+  isSubmitting,
+}: ProductDiscountFormProps) {
+  return (
+    <Form method="post">
+      {/* e.g. Shopify rejected the synced discount */}
+      {errors.form && (
+        <p
+          role="alert"
+          style={{ fontSize: "14px", color: "#dc2626", marginBottom: "16px" }}
+        >
+          {errors.form}
+        </p>
+      )}
+
+      <div style={{ marginBottom: "16px" }}>
+        <label htmlFor="title" style={labelStyle}>
+          Title
+        </label>
+        <input
+          id="title"
+          name="title"
+          type="text"
+          defaultValue={defaultValues?.title ?? ""}
+          placeholder="e.g. Launch offer"
+          style={inputStyle}
+        />
+        <p style={helpTextStyle}>Customers see this in the cart.</p>
+        <FieldError message={errors.title} />
+      </div>
+
+      <div style={{ marginBottom: "16px" }}>
+        <ProductPicker
+          name="productId"
+          label="Product"
+          defaultValue={
+            defaultValues
+              ? {
+                  id: defaultValues.productId,
+                  title: defaultValues.productTitle ?? "Deleted product",
+                }
+              : null
+          }
+        />
+        <FieldError message={errors.productId} />
+      </div>
+
+      <div style={{ marginBottom: "16px" }}>
+        <label htmlFor="percentage" style={labelStyle}>
+          Discount (%)
+        </label>
+        <input
+          id="percentage"
+          name="percentage"
+          type="number"
+          min={1}
+          max={100}
+          step={1}
+          defaultValue={defaultValues?.percentage ?? ""}
+          style={inputStyle}
+        />
+        <p style={helpTextStyle}>
+          Applies to every variant of the product, at any quantity.
+        </p>
+        <FieldError message={errors.percentage} />
+      </div>
+
+      {/* submit button */}
+      <button
+        type="submit"
+        name="intent"
+        value="save"
+        disabled={isSubmitting}
+        style={{
+          padding: "8px 16px",
+          borderRadius: "6px",
+          border: "none",
+          backgroundColor: "#111827",
+          color: "white",
+          fontSize: "14px",
+          cursor: isSubmitting ? "default" : "pointer",
+        }}
+      >
+        {isSubmitting ? submittingLabel : submitLabel}
+      </button>
+    </Form>
+  );
+}
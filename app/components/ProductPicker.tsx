@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { useAppBridge } from "@shopify/app-bridge-react";
+
+// the product shown before anything is picked (e.g. the saved one on the edit page)
+export type PickedProduct = {
+  id: string; // gid://shopify/Product/...
+  title: string;
+};
+
+type ProductPickerProps = {
+  name: string; // form field that gets the product gid
+  label: string; // visible field label
+  defaultValue?: PickedProduct | null;
+};
+
+// --------------------
+// React component: product picker
+// --------------------
+
+// like VariantPicker, but for discounts that apply to every variant of a product
+// the picked product id is posted as a hidden field
+export function ProductPicker({
+  name,
+  label,
+  defaultValue,
+}: ProductPickerProps) {
+  const shopify = useAppBridge();
+  const [picked, setPicked] = useState<PickedProduct | null>(
+    defaultValue ?? null,
+  );
+
+  async function openPicker() {
+    const selection = await shopify.resourcePicker({
+      type: "product",
+      action: "select",
+      filter: { variants: false, archived: false },
+      // reopen on the current pick so the merchant sees what's selected
+      selectionIds: picked ? [{ id: picked.id }] : [],
+    });
+
+    // undefined when the merchant closed the picker without choosing
+    const product = selection?.[0];
+    if (!product) {
+      return;
+    }
+
+    setPicked({ id: product.id, title: product.title });
+  }
+
+  return (
+    <div>
+      <span style={{ display: "block", fontSize: "14px", marginBottom: "4px" }}>
+        {label}
+      </span>
+
+      <input type="hidden" name={name} value={picked ? picked.id : ""} />
+
+      <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+        <span
+          style={{
+            flex: 1,
+            padding: "8px 10px",
+            borderRadius: "6px",
+            border: "1px solid #d1d5db",
+            fontSize: "14px",
+            color: picked ? "#111827" : "#6b7280",
+          }}
+        >
+          {picked ? picked.title : "No product selected"}
+        </span>
+        <button
+          type="button"
+          onClick={openPicker}
+          style={{
+            padding: "8px 14px",
+            borderRadius: "6px",
+            border: "1px solid #d1d5db",
+            backgroundColor: "white",
+            fontSize: "14px",
+            cursor: "pointer",
+          }}
+        >
+          {picked ? "Change" : "Select product"}
+        </button>
+      </div>
+    </div>
+  );
+}
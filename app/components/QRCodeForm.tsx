@@ -0,0 +1,645 @@
+import { useState } from "react";
+import { Form, Link } from "react-router";
+
+import { CartLinesEditor, type CartLineValue } from "./CartLinesEditor";
+import {
+  VariantPicker,
+  getVariantLabel,
+  type PickedVariant,
+} from "./VariantPicker";
+
+// --------------------
+// shared types
+// --------------------
+
+// this is a simple shape we pass from the loaders to the form
+export type CollectionOption = {
+  id: string; // GraphQL id of the collection
+  title: string; // collection name
+  handle: string; // collection handle used in URL
+};
+
+// values used to pre-fill the form (empty for the create page)
+export type QRCodeFormValues = {
+  title?: string;
+  productId?: string;
+  productVariantId?: string;
+  productHandle?: string;
+  productTitle?: string; // cached titles, for the picker's label
+  variantTitle?: string;
+  destination?: string;
+  collectionHandle?: string | null;
+  customUrl?: string | null;
+  discountCode?: string | null;
+  cartNote?: string | null;
+  cartAttributes?: string | null; // JSON string as stored on the QR row
+  imageSize?: number;
+  foregroundColor?: string;
+  backgroundColor?: string;
+  margin?: number;
+  errorCorrection?: string;
+  showLogo?: boolean;
+  fallbackType?: string;
+  fallbackCollection?: string | null;
+  fallbackVariantId?: string | null;
+};
+
+// the inputs validateQRCodeForm can reject, by form field name
+type QRCodeFormField =
+  | "title"
+  | "productVariant"
+  | "collectionHandle"
+  | "customUrl"
+  | "lineItems"
+  | "discountCode"
+  | "cartNote"
+  | "cartAttributes"
+  | "imageSize"
+  | "foregroundColor"
+  | "backgroundColor"
+  | "margin"
+  | "errorCorrection"
+  | "showLogo"
+  | "fallbackCollection"
+  | "fallbackVariant";
+
+// field name → message, from the action when it rejects the form
+export type QRCodeFormErrors = Partial<Record<QRCodeFormField, string>>;
+
+type QRCodeFormProps = {
+  collections: CollectionOption[];
+  hasLogo: boolean; // whether the shop uploaded a logo on /app/branding
+  defaultValues?: QRCodeFormValues;
+  // the saved replacement variant (looked up by the edit page's loader)
+  defaultFallbackVariant?: PickedVariant | null;
+  // the saved cart lines with their variants (looked up by the edit page's loader)
+  defaultCartLines?: CartLineValue[];
+  submitLabel: string; // e.g. "Create QR code"
+  submittingLabel: string; // e.g. "Creating..."
+  isSubmitting: boolean;
+  errors?: QRCodeFormErrors; // shown under the matching inputs
+};
+
+// where a scanned QR can send the customer
+// (the value is what we store in QRCode.destination)
+export const DESTINATION_OPTIONS = [
+  { value: "checkout", label: "Checkout with these items (reorder)" },
+  { value: "cart", label: "Add these items to the cart" },
+  { value: "product", label: "Product page" },
+  { value: "collection", label: "Collection page" },
+  { value: "url", label: "Custom URL on your store" },
+];
+
+// where scans go if the product is deleted or archived later
+// (the value is what we store in QRCode.fallbackType)
+const FALLBACK_OPTIONS = [
+  { value: "home", label: "Store home page" },
+  { value: "collection", label: "A collection page" },
+  { value: "variant", label: "A replacement product variant" },
+];
+
+// error correction levels the qrcode library supports
+// higher levels survive more damage / smudges but make the code denser
+const ERROR_CORRECTION_OPTIONS = [
+  { value: "L", label: "Low (7%)" },
+  { value: "M", label: "Medium (15%)" },
+  { value: "Q", label: "Quartile (25%)" },
+  { value: "H", label: "High (30%)" },
+];
+
+// this helper turns the stored attributes JSON back into "key=value" lines
+function formatCartAttributes(cartAttributes?: string | null) {
+  if (!cartAttributes) {
+    return "";
+  }
+
+  const attributes: Record<string, string> = JSON.parse(cartAttributes);
+  return Object.entries(attributes)
+    .map(([key, value]) => `${key}=${value}`)
+    .join("\n");
+}
+
+// shared input style so every field looks the same
+const inputStyle = {
+  width: "100%",
+  padding: "8px 10px",
+  borderRadius: "6px",
+  border: "1px solid #d1d5db",
+  fontSize: "14px",
+};
+
+const helpTextStyle = {
+  fontSize: "12px",
+  color: "#6b7280",
+  marginTop: "4px",
+};
+
+// small red message under a field (renders nothing when there is no error)
+function FieldError({ message }: { message?: string }) {
+  if (!message) {
+    return null;
+  }
+
+  return (
+    <p role="alert" style={{ ...helpTextStyle, color: "#dc2626" }}>
+      {message}
+    </p>
+  );
+}
+
+// --------------------
+// React component: QR create/edit form
+// --------------------
+
+// this form is used by /app/qrcodes/new and /app/qrcodes/:id
+// it posts back to the current route's action
+export function QRCodeForm({
+  collections,
+  hasLogo,
+  defaultValues = {},
+  defaultFallbackVariant = null,
+  defaultCartLines = [],
+  submitLabel,
+  submittingLabel,
+  isSubmitting,
+  errors = {},
+}: QRCodeFormProps) {
+  // the currently saved variant (if any) so the picker starts on it
+  const defaultVariant: PickedVariant | null =
+    defaultValues.productId &&
+    defaultValues.productVariantId &&
+    defaultValues.productHandle
+      ? {
+          productId: defaultValues.productId,
+          variantId: defaultValues.productVariantId,
+          handle: defaultValues.productHandle,
+          label: getVariantLabel(
+            defaultValues.productTitle ?? defaultValues.productHandle,
+            defaultValues.variantTitle,
+          ),
+        }
+      : null;
+
+  // we track the destination so the collection / URL fields only show when needed
+  const [destination, setDestination] = useState(
+    defaultValues.destination ?? "checkout",
+  );
+
+  // same idea for the fallback's collection / replacement variant select
+  const [fallbackType, setFallbackType] = useState(
+    defaultValues.fallbackType ?? "home",
+  );
+
+  return (
+    <Form method="post">
+      {/* one line at the top, so an error further down isn't missed */}
+      {Object.keys(errors).length > 0 && (
+        <p
+          role="alert"
+          style={{ fontSize: "14px", color: "#dc2626", marginBottom: "16px" }}
+        >
+          Please fix the highlighted fields below.
+        </p>
+      )}
+
+      {/* title input for the QR row */}
+      <div style={{ marginBottom: "16px" }}>
+        <label
+          htmlFor="title"
+          style={{ display: "block", fontSize: "14px", marginBottom: "4px" }}
+        >
+          QR title
+        </label>
+        <input
+          id="title"
+          name="title"
+          type="text"
+          placeholder="Shampoo 250ml reorder"
+          defaultValue={defaultValues.title ?? ""}
+          style={inputStyle}
+        />
+        <p style={helpTextStyle}>
+          This name only appears in the admin list, to help you recognize the QR
+          later.
+        </p>
+        <FieldError message={errors.title} />
+      </div>
+
+      {/* product + variant, picked with the App Bridge resource picker */}
+      <div style={{ marginBottom: "16px" }}>
+        <VariantPicker
+          name="productVariant"
+          label="Product and variant"
+          defaultValue={defaultVariant}
+        />
+        <FieldError message={errors.productVariant} />
+      </div>
+
+      {/* destination select */}
+      <div style={{ marginBottom: "20px" }}>
+        <label
+          htmlFor="destination"
+          style={{ display: "block", fontSize: "14px", marginBottom: "4px" }}
+        >
+          Scan destination
+        </label>
+        <select
+          id="destination"
+          name="destination"
+          value={destination}
+          onChange={(event) => setDestination(event.target.value)}
+          style={inputStyle}
+        >
+          {DESTINATION_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <p style={helpTextStyle}>Where customers land after scanning the QR.</p>
+      </div>
+
+      {/* collection select, only for the "collection" destination */}
+      {destination === "collection" && (
+        <div style={{ marginBottom: "20px" }}>
+          <label
+            htmlFor="collectionHandle"
+            style={{ display: "block", fontSize: "14px", marginBottom: "4px" }}
+          >
+            Collection
+          </label>
+          <select
+            id="collectionHandle"
+            name="collectionHandle"
+            required
+            defaultValue={defaultValues.collectionHandle ?? ""}
+            style={inputStyle}
+          >
+            <option value="">Select a collection</option>
+            {collections.map((collection) => (
+              <option key={collection.id} value={collection.handle}>
+                {collection.title}
+              </option>
+            ))}
+          </select>
+          <FieldError message={errors.collectionHandle} />
+        </div>
+      )}
+
+      {/* custom URL input, only for the "url" destination */}
+      {destination === "url" && (
+        <div style={{ marginBottom: "20px" }}>
+          <label
+            htmlFor="customUrl"
+            style={{ display: "block", fontSize: "14px", marginBottom: "4px" }}
+          >
+            Custom URL
+          </label>
+          <input
+            id="customUrl"
+            name="customUrl"
+            type="url"
+            required
+            placeholder="https://your-store.com/pages/refill"
+            defaultValue={defaultValues.customUrl ?? ""}
+            style={inputStyle}
+          />
+          <p style={helpTextStyle}>Must be a page on your own store domain.</p>
+          <FieldError message={errors.customUrl} />
+        </div>
+      )}
+
+      {/* cart lines + extras, only for cart permalink destinations */}
+      {(destination === "checkout" || destination === "cart") && (
+        <fieldset
+          style={{
+            border: "1px solid #e5e7eb",
+            borderRadius: "8px",
+            padding: "16px",
+            marginBottom: "20px",
+          }}
+        >
+          <legend style={{ fontSize: "14px", padding: "0 4px" }}>
+            Cart contents
+          </legend>
+
+          <CartLinesEditor defaultLines={defaultCartLines} />
+          <FieldError message={errors.lineItems} />
+
+          <div style={{ marginBottom: "16px" }}>
+            <label
+              htmlFor="discountCode"
+              style={{
+                display: "block",
+                fontSize: "14px",
+                marginBottom: "4px",
+              }}
+            >
+              Discount code (optional)
+            </label>
+            <input
+              id="discountCode"
+              name="discountCode"
+              type="text"
+              placeholder="REORDER10"
+              defaultValue={defaultValues.discountCode ?? ""}
+              style={inputStyle}
+            />
+            <FieldError message={errors.discountCode} />
+          </div>
+
+          <div style={{ marginBottom: "16px" }}>
+            <label
+              htmlFor="cartNote"
+              style={{
+                display: "block",
+                fontSize: "14px",
+                marginBottom: "4px",
+              }}
+            >
+              Cart note (optional)
+            </label>
+            <input
+              id="cartNote"
+              name="cartNote"
+              type="text"
+              defaultValue={defaultValues.cartNote ?? ""}
+              style={inputStyle}
+            />
+            <FieldError message={errors.cartNote} />
+          </div>
+
+          <div>
+            <label
+              htmlFor="cartAttributes"
+              style={{
+                display: "block",
+                fontSize: "14px",
+                marginBottom: "4px",
+              }}
+            >
+              Cart attributes (optional)
+            </label>
+            <textarea
+              id="cartAttributes"
+              name="cartAttributes"
+              rows={3}
+              placeholder={"source=packaging\ncampaign=spring-refill"}
+              defaultValue={formatCartAttributes(defaultValues.cartAttributes)}
+              style={{ ...inputStyle, fontFamily: "monospace" }}
+            />
+            <p style={helpTextStyle}>
+              One key=value per line. They show up on the order, so you can see
+              which QR it came from.
+            </p>
+            <FieldError message={errors.cartAttributes} />
+          </div>
+        </fieldset>
+      )}
+
+      {/* fallback for product / cart / checkout QRs whose product disappears */}
+      {destination !== "collection" && destination !== "url" && (
+        <fieldset
+          style={{
+            border: "1px solid #e5e7eb",
+            borderRadius: "8px",
+            padding: "16px",
+            marginBottom: "20px",
+          }}
+        >
+          <legend style={{ fontSize: "14px", padding: "0 4px" }}>
+            If the product is deleted
+          </legend>
+
+          <select
+            id="fallbackType"
+            name="fallbackType"
+            aria-label="Fallback destination"
+            value={fallbackType}
+            onChange={(event) => setFallbackType(event.target.value)}
+            style={inputStyle}
+          >
+            {FALLBACK_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+
+          {fallbackType === "collection" && (
+            <select
+              name="fallbackCollection"
+              aria-label="Fallback collection"
+              required
+              defaultValue={defaultValues.fallbackCollection ?? ""}
+              style={{ ...inputStyle, marginTop: "12px" }}
+            >
+              <option value="">Select a collection</option>
+              {collections.map((collection) => (
+                <option key={collection.id} value={collection.handle}>
+                  {collection.title}
+                </option>
+              ))}
+            </select>
+          )}
+          <FieldError message={errors.fallbackCollection} />
+
+          {fallbackType === "variant" && (
+            <div style={{ marginTop: "12px" }}>
+              <VariantPicker
+                name="fallbackVariant"
+                label="Replacement variant"
+                defaultValue={defaultFallbackVariant}
+              />
+              <FieldError message={errors.fallbackVariant} />
+            </div>
+          )}
+
+          <p style={helpTextStyle}>
+            Printed codes live for years. If the product is deleted or archived,
+            scans go here instead of to an empty cart.
+          </p>
+        </fieldset>
+      )}
+
+      {/* image style preset, used by the preview, downloads and /qrcodes/image */}
+      <fieldset
+        style={{
+          border: "1px solid #e5e7eb",
+          borderRadius: "8px",
+          padding: "16px",
+          marginBottom: "20px",
+        }}
+      >
+        <legend style={{ fontSize: "14px", padding: "0 4px" }}>QR style</legend>
+
+        <div style={{ display: "flex", gap: "12px", marginBottom: "16px" }}>
+          <div style={{ flex: 1 }}>
+            <label
+              htmlFor="foregroundColor"
+              style={{
+                display: "block",
+                fontSize: "14px",
+                marginBottom: "4px",
+              }}
+            >
+              Foreground
+            </label>
+            <input
+              id="foregroundColor"
+              name="foregroundColor"
+              type="color"
+              defaultValue={defaultValues.foregroundColor ?? "#000000"}
+              style={{ ...inputStyle, padding: "2px", height: "38px" }}
+            />
+            <FieldError message={errors.foregroundColor} />
+          </div>
+          <div style={{ flex: 1 }}>
+            <label
+              htmlFor="backgroundColor"
+              style={{
+                display: "block",
+                fontSize: "14px",
+                marginBottom: "4px",
+              }}
+            >
+              Background
+            </label>
+            <input
+              id="backgroundColor"
+              name="backgroundColor"
+              type="color"
+              defaultValue={defaultValues.backgroundColor ?? "#ffffff"}
+              style={{ ...inputStyle, padding: "2px", height: "38px" }}
+            />
+            <FieldError message={errors.backgroundColor} />
+          </div>
+        </div>
+
+        <div style={{ display: "flex", gap: "12px" }}>
+          <div style={{ flex: 1 }}>
+            <label
+              htmlFor="imageSize"
+              style={{
+                display: "block",
+                fontSize: "14px",
+                marginBottom: "4px",
+              }}
+            >
+              PNG size (px)
+            </label>
+            <input
+              id="imageSize"
+              name="imageSize"
+              type="number"
+              min={64}
+              max={4096}
+              defaultValue={defaultValues.imageSize ?? 512}
+              style={inputStyle}
+            />
+            <FieldError message={errors.imageSize} />
+          </div>
+          <div style={{ flex: 1 }}>
+            <label
+              htmlFor="margin"
+              style={{
+                display: "block",
+                fontSize: "14px",
+                marginBottom: "4px",
+              }}
+            >
+              Margin
+            </label>
+            <input
+              id="margin"
+              name="margin"
+              type="number"
+              min={0}
+              max={20}
+              defaultValue={defaultValues.margin ?? 4}
+              style={inputStyle}
+            />
+            <FieldError message={errors.margin} />
+          </div>
+          <div style={{ flex: 1 }}>
+            <label
+              htmlFor="errorCorrection"
+              style={{
+                display: "block",
+                fontSize: "14px",
+                marginBottom: "4px",
+              }}
+            >
+              Error correction
+            </label>
+            <select
+              id="errorCorrection"
+              name="errorCorrection"
+              defaultValue={defaultValues.errorCorrection ?? "M"}
+              style={inputStyle}
+            >
+              {ERROR_CORRECTION_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <FieldError message={errors.errorCorrection} />
+          </div>
+        </div>
+        <p style={helpTextStyle}>
+          Keep the foreground dark and the background light, most phone cameras
+          can&apos;t read inverted codes.
+        </p>
+
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            fontSize: "14px",
+            marginTop: "16px",
+          }}
+        >
+          <input
+            name="showLogo"
+            type="checkbox"
+            disabled={!hasLogo}
+            defaultChecked={hasLogo && (defaultValues.showLogo ?? false)}
+          />
+          Show shop logo in the centre
+        </label>
+        <p style={helpTextStyle}>
+          {hasLogo ? (
+            "Uses high error correction. We check the code still scans before saving."
+          ) : (
+            <>
+              Upload a logo on the <Link to="/app/branding">Branding</Link> page
+              first.
+            </>
+          )}
+        </p>
+        <FieldError message={errors.showLogo} />
+      </fieldset>
+
+      {/* submit button */}
+      <button
+        type="submit"
+        name="intent"
+        value="save"
+        disabled={isSubmitting}
+        style={{
+          padding: "8px 16px",
+          borderRadius: "6px",
+          border: "none",
+          backgroundColor: "#111827",
+          color: "white",
+          fontSize: "14px",
+          cursor: isSubmitting ? "default" : "pointer",
+        }}
+      >
+        {isSubmitting ? submittingLabel : submitLabel}
+      </button>
+    </Form>
+  );
+}
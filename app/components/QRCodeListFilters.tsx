@@ -0,0 +1,219 @@
+import { Form, Link, useSearchParams } from "react-router";
+
+import { DESTINATION_OPTIONS } from "./QRCodeForm";
+
+// the list options as read by getQRCodeListParams (all strings, "" = not set)
+export type QRCodeListParams = {
+  q: string;
+  destination: string;
+  status: string;
+  from: string;
+  to: string;
+  sort: string;
+  dir: string;
+};
+
+type QRCodeListFiltersProps = {
+  params: QRCodeListParams;
+};
+
+type QRCodeListPaginationProps = {
+  firstId?: number;
+  lastId?: number;
+  hasPrevious: boolean;
+  hasNext: boolean;
+};
+
+const SORT_OPTIONS = [
+  { value: "created", label: "Date created" },
+  { value: "scans", label: "Scans" },
+  { value: "title", label: "Title" },
+];
+
+const fieldStyle = {
+  padding: "8px 10px",
+  borderRadius: "6px",
+  border: "1px solid #d1d5db",
+  fontSize: "14px",
+};
+
+const labelStyle = {
+  display: "flex",
+  flexDirection: "column" as const,
+  gap: "4px",
+  fontSize: "13px",
+  color: "#4b5563",
+};
+
+const pageLinkStyle = {
+  padding: "6px 12px",
+  borderRadius: "6px",
+  border: "1px solid #d1d5db",
+  color: "#111827",
+  textDecoration: "none",
+  fontSize: "14px",
+};
+
+// --------------------
+// React component: list filters
+// --------------------
+
+// this GET form puts search, filters and sort in the URL (?q=&destination=...)
+// submitting it drops the page cursor, so results start again from page 1
+export function QRCodeListFilters({ params }: QRCodeListFiltersProps) {
+  return (
+    <Form
+      method="get"
+      // key resets the uncontrolled fields when the URL changes (e.g. "Clear")
+      key={JSON.stringify(params)}
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        alignItems: "flex-end",
+        gap: "12px",
+        marginBottom: "16px",
+      }}
+    >
+      <label style={{ ...labelStyle, flex: "1 1 200px" }}>
+        Search
+        <input
+          type="search"
+          name="q"
+          defaultValue={params.q}
+          placeholder="Title or product"
+          style={fieldStyle}
+        />
+      </label>
+
+      <label style={labelStyle}>
+        Destination
+        <select
+          name="destination"
+          defaultValue={params.destination}
+          style={fieldStyle}
+        >
+          <option value="">All</option>
+          {DESTINATION_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label style={labelStyle}>
+        Product
+        <select name="status" defaultValue={params.status} style={fieldStyle}>
+          <option value="">All</option>
+          <option value="active">Available</option>
+          <option value="deleted">Deleted or archived</option>
+        </select>
+      </label>
+
+      <label style={labelStyle}>
+        Created from
+        <input
+          type="date"
+          name="from"
+          defaultValue={params.from}
+          style={fieldStyle}
+        />
+      </label>
+
+      <label style={labelStyle}>
+        Created to
+        <input
+          type="date"
+          name="to"
+          defaultValue={params.to}
+          style={fieldStyle}
+        />
+      </label>
+
+      <label style={labelStyle}>
+        Sort by
+        <select name="sort" defaultValue={params.sort} style={fieldStyle}>
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label style={labelStyle}>
+        Order
+        <select name="dir" defaultValue={params.dir} style={fieldStyle}>
+          <option value="">Default</option>
+          <option value="desc">Descending</option>
+          <option value="asc">Ascending</option>
+        </select>
+      </label>
+
+      <button
+        type="submit"
+        style={{
+          ...fieldStyle,
+          border: "none",
+          backgroundColor: "#111827",
+          color: "white",
+          cursor: "pointer",
+        }}
+      >
+        Apply
+      </button>
+      <Link to="/app" style={{ fontSize: "14px", color: "#2563eb" }}>
+        Clear
+      </Link>
+    </Form>
+  );
+}
+
+// --------------------
+// React component: previous / next links
+// --------------------
+
+// these links keep every filter in the URL and only swap the page cursor
+export function QRCodeListPagination({
+  firstId,
+  lastId,
+  hasPrevious,
+  hasNext,
+}: QRCodeListPaginationProps) {
+  const [searchParams] = useSearchParams();
+
+  // builds "?...&after=<id>" or "?...&before=<id>" from the current URL
+  function pageUrl(key: "after" | "before", id: number) {
+    const next = new URLSearchParams(searchParams);
+    next.delete("after");
+    next.delete("before");
+    next.set(key, String(id));
+    return `?${next}`;
+  }
+
+  if (!hasPrevious && !hasNext) {
+    return null;
+  }
+
+  return (
+    <nav
+      style={{
+        display: "flex",
+        justifyContent: "flex-end",
+        gap: "8px",
+        marginTop: "16px",
+      }}
+    >
+      {hasPrevious && firstId != null && (
+        <Link to={pageUrl("before", firstId)} style={pageLinkStyle}>
+          ← Previous
+        </Link>
+      )}
+      {hasNext && lastId != null && (
+        <Link to={pageUrl("after", lastId)} style={pageLinkStyle}>
+          Next →
+        </Link>
+      )}
+    </nav>
+  );
+}
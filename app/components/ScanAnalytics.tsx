@@ -0,0 +1,267 @@
+import { Link } from "react-router";
+
+// --------------------
+// shared types
+// --------------------
+
+// this matches what getScanAnalytics in QRScan.server.js returns
+export type ScanAnalyticsData = {
+  interval: "day" | "week";
+  days: number;
+  totalScans: number;
+  uniqueScanners: number;
+  repeatScanners: number;
+  series: { date: string; scans: number }[];
+  devices: { device: string; scans: number }[];
+  topQRCodes: { id: number; title: string; scans: number }[];
+};
+
+type ScanAnalyticsProps = {
+  analytics: ScanAnalyticsData;
+};
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+const cardStyle = {
+  border: "1px solid #e5e7eb",
+  borderRadius: "8px",
+  padding: "16px",
+  backgroundColor: "#f9fafb",
+};
+
+const sectionHeadingStyle = {
+  fontSize: "16px",
+  fontWeight: 500,
+  marginBottom: "12px",
+};
+
+// --------------------
+// small building blocks
+// --------------------
+
+// one number with a label, e.g. "Total scans 120"
+function StatCard({ label, value }: { label: string; value: number }) {
+  return (
+    <div style={{ ...cardStyle, flex: 1 }}>
+      <p style={{ fontSize: "13px", color: "#4b5563" }}>{label}</p>
+      <p style={{ fontSize: "26px", fontWeight: 600 }}>{value}</p>
+    </div>
+  );
+}
+
+// a simple SVG bar chart for scans per day/week (no chart library needed)
+function ScanChart({ series }: { series: ScanAnalyticsData["series"] }) {
+  const height = 160;
+  const barGap = 2;
+  const width = 640;
+  const max = Math.max(1, ...series.map((point) => point.scans));
+  const barWidth = series.length ? width / series.length - barGap : 0;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height + 20}`}
+      role="img"
+      aria-label="Scans over time"
+      style={{ width: "100%", height: "auto" }}
+    >
+      {series.map((point, index) => {
+        const barHeight = (point.scans / max) * height;
+        const x = index * (barWidth + barGap);
+
+        return (
+          <g key={point.date}>
+            <rect
+              x={x}
+              y={height - barHeight}
+              width={barWidth}
+              height={barHeight}
+              fill="#111827"
+              rx={2}
+            >
+              <title>
+                {point.date}: {point.scans} scans
+              </title>
+            </rect>
+          </g>
+        );
+      })}
+
+      {/* first + last date under the bars so the range is readable */}
+      {series.length > 0 && (
+        <>
+          <text x={0} y={height + 16} fontSize="11" fill="#6b7280">
+            {series[0].date}
+          </text>
+          <text
+            x={width}
+            y={height + 16}
+            fontSize="11"
+            fill="#6b7280"
+            textAnchor="end"
+          >
+            {series[series.length - 1].date}
+          </text>
+        </>
+      )}
+    </svg>
+  );
+}
+
+// --------------------
+// React component: analytics body
+// --------------------
+
+// this is shared by /app/analytics and /app/qrcodes/:id/analytics
+// the range + interval links just change the query string of the current page
+export function ScanAnalytics({ analytics }: ScanAnalyticsProps) {
+  const {
+    interval,
+    days,
+    totalScans,
+    uniqueScanners,
+    repeatScanners,
+    series,
+    devices,
+    topQRCodes,
+  } = analytics;
+
+  const linkStyle = (active: boolean) => ({
+    padding: "4px 10px",
+    borderRadius: "6px",
+    fontSize: "13px",
+    textDecoration: "none",
+    border: "1px solid #d1d5db",
+    backgroundColor: active ? "#111827" : "white",
+    color: active ? "white" : "#111827",
+  });
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "24px" }}>
+      {/* range + interval toggles */}
+      <div style={{ display: "flex", gap: "16px", flexWrap: "wrap" }}>
+        <div style={{ display: "flex", gap: "6px" }}>
+          {RANGE_OPTIONS.map((option) => (
+            <Link
+              key={option}
+              to={`?days=${option}&interval=${interval}`}
+              style={linkStyle(option === days)}
+            >
+              Last {option} days
+            </Link>
+          ))}
+        </div>
+        <div style={{ display: "flex", gap: "6px" }}>
+          <Link
+            to={`?days=${days}&interval=day`}
+            style={linkStyle(interval === "day")}
+          >
+            Daily
+          </Link>
+          <Link
+            to={`?days=${days}&interval=week`}
+            style={linkStyle(interval === "week")}
+          >
+            Weekly
+          </Link>
+        </div>
+      </div>
+
+      {/* headline numbers */}
+      <div style={{ display: "flex", gap: "12px" }}>
+        <StatCard label="Total scans" value={totalScans} />
+        <StatCard label="Unique scanners" value={uniqueScanners} />
+        <StatCard label="Repeat scanners" value={repeatScanners} />
+      </div>
+
+      {/* scans were logged without an IP, so the scanner counts can't be trusted */}
+      {totalScans > 0 && uniqueScanners === 0 && (
+        <p style={{ fontSize: "13px", color: "#92400e" }}>
+          Scanner counts need the visitor&apos;s IP address, which this server
+          can&apos;t see. Set CLIENT_IP_HEADER or TRUSTED_PROXY_COUNT to match
+          your hosting.
+        </p>
+      )}
+
+      {/* scans over time */}
+      <section style={cardStyle}>
+        <h2 style={sectionHeadingStyle}>
+          Scans per {interval === "week" ? "week" : "day"}
+        </h2>
+        <ScanChart series={series} />
+      </section>
+
+      {/* device breakdown as horizontal bars */}
+      <section style={cardStyle}>
+        <h2 style={sectionHeadingStyle}>Devices</h2>
+        {devices.length === 0 ? (
+          <p style={{ fontSize: "14px", color: "#4b5563" }}>
+            No scans in this range yet.
+          </p>
+        ) : (
+          devices.map((row) => (
+            <div key={row.device} style={{ marginBottom: "8px" }}>
+              <div
+                style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  fontSize: "13px",
+                }}
+              >
+                <span>{row.device}</span>
+                <span>{row.scans}</span>
+              </div>
+              <div
+                style={{
+                  height: "6px",
+                  borderRadius: "3px",
+                  backgroundColor: "#e5e7eb",
+                }}
+              >
+                <div
+                  style={{
+                    width: `${(row.scans / totalScans) * 100}%`,
+                    height: "100%",
+                    borderRadius: "3px",
+                    backgroundColor: "#111827",
+                  }}
+                />
+              </div>
+            </div>
+          ))
+        )}
+      </section>
+
+      {/* top QR codes (only filled in on the shop-wide page) */}
+      {topQRCodes.length > 0 && (
+        <section style={cardStyle}>
+          <h2 style={sectionHeadingStyle}>Top QR codes</h2>
+          <table
+            style={{
+              width: "100%",
+              borderCollapse: "collapse",
+              fontSize: "14px",
+            }}
+          >
+            <tbody>
+              {topQRCodes.map((qr) => (
+                <tr key={qr.id}>
+                  <td style={{ padding: "6px 0" }}>
+                    <Link
+                      to={`/app/qrcodes/${qr.id}/analytics`}
+                      style={{ textDecoration: "none", color: "#111827" }}
+                    >
+                      {qr.title || "(no title)"}
+                    </Link>
+                  </td>
+                  <td style={{ padding: "6px 0", textAlign: "right" }}>
+                    {qr.scans}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+}
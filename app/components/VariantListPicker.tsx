@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useAppBridge } from "@shopify/app-bridge-react";
+
+import { getVariantLabel } from "./VariantPicker";
+
+type ListedVariant = {
+  productId: string;
+  variantId: string;
+  label: string; // "Product — Variant"
+};
+
+type VariantListPickerProps = {
+  name: string; // form field repeated once per picked variant id
+  label: string; // visible field label
+};
+
+const buttonStyle = {
+  padding: "8px 14px",
+  borderRadius: "6px",
+  border: "1px solid #d1d5db",
+  backgroundColor: "white",
+  fontSize: "14px",
+  cursor: "pointer",
+};
+
+// --------------------
+// React component: variant list picker
+// --------------------
+
+// like VariantPicker, but many variants can be picked at once (bulk create)
+// the resource picker searches the whole catalog, ticking a product picks all its variants
+// every picked variant id is posted as its own hidden field
+export function VariantListPicker({ name, label }: VariantListPickerProps) {
+  const shopify = useAppBridge();
+  const [picked, setPicked] = useState<ListedVariant[]>([]);
+
+  async function openPicker() {
+    // the picker wants the current picks grouped by product
+    const selectionIds = new Map<string, { id: string }[]>();
+    for (const variant of picked) {
+      const variants = selectionIds.get(variant.productId) ?? [];
+      variants.push({ id: variant.variantId });
+      selectionIds.set(variant.productId, variants);
+    }
+
+    const selection = await shopify.resourcePicker({
+      type: "product",
+      action: "select",
+      multiple: true,
+      // archived products can't be bought, so they make no sense on a QR
+      filter: { variants: true, archived: false },
+      // reopen on the current picks so the merchant can untick some
+      selectionIds: [...selectionIds].map(([id, variants]) => ({
+        id,
+        variants,
+      })),
+    });
+
+    // undefined when the merchant closed the picker without choosing
+    if (!selection) {
+      return;
+    }
+
+    setPicked(
+      selection.flatMap((product) =>
+        product.variants
+          .filter((variant) => variant.id)
+          .map((variant) => ({
+            productId: product.id,
+            variantId: variant.id as string,
+            label: getVariantLabel(product.title, variant.title),
+          })),
+      ),
+    );
+  }
+
+  return (
+    <div>
+      <span style={{ display: "block", fontSize: "14px", marginBottom: "4px" }}>
+        {label}
+      </span>
+
+      {picked.map((variant) => (
+        <input
+          key={variant.variantId}
+          type="hidden"
+          name={name}
+          value={variant.variantId}
+        />
+      ))}
+
+      <div
+        style={{
+          maxHeight: "240px",
+          overflowY: "auto",
+          padding: "8px 10px",
+          borderRadius: "6px",
+          border: "1px solid #d1d5db",
+          fontSize: "14px",
+          color: picked.length ? "#111827" : "#6b7280",
+          marginBottom: "8px",
+        }}
+      >
+        {picked.length
+          ? picked.map((variant) => (
+              <div key={variant.variantId}>{variant.label}</div>
+            ))
+          : "No variants selected"}
+      </div>
+
+      <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+        <span style={{ flex: 1, fontSize: "13px", color: "#6b7280" }}>
+          {picked.length} variant{picked.length === 1 ? "" : "s"} selected
+        </span>
+        {picked.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setPicked([])}
+            style={buttonStyle}
+          >
+            Clear
+          </button>
+        )}
+        <button type="button" onClick={openPicker} style={buttonStyle}>
+          {picked.length ? "Change" : "Select variants"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useAppBridge } from "@shopify/app-bridge-react";
+
+// the variant shown before anything is picked (e.g. the saved one on the edit page)
+export type PickedVariant = {
+  productId: string;
+  variantId: string;
+  handle: string;
+  label: string; // "Product — Variant", shown next to the button
+};
+
+type VariantPickerProps = {
+  name: string; // form field that gets the packed "productId|variantId|handle"
+  label: string; // visible field label
+  defaultValue?: PickedVariant | null;
+  placeholder?: string; // shown while nothing is picked
+};
+
+// we pack productId | variantId | handle into one form value
+// (validateQRCodeForm splits it back up on the server)
+export function packProductVariant(
+  productId: string,
+  variantId: string,
+  handle: string,
+) {
+  return `${productId}|${variantId}|${handle}`;
+}
+
+// "Default Title" is what Shopify calls the only variant of simple products
+export function getVariantLabel(productTitle: string, variantTitle?: string) {
+  return variantTitle && variantTitle !== "Default Title"
+    ? `${productTitle} — ${variantTitle}`
+    : productTitle;
+}
+
+// --------------------
+// React component: variant picker
+// --------------------
+
+// this opens the App Bridge resource picker, which searches the whole catalog
+// (the old <select> only listed the first 20 products)
+// the picked variant is posted as a hidden field, packed the same way as before
+export function VariantPicker({
+  name,
+  label,
+  defaultValue,
+  placeholder = "No variant selected",
+}: VariantPickerProps) {
+  const shopify = useAppBridge();
+  const [picked, setPicked] = useState<PickedVariant | null>(
+    defaultValue ?? null,
+  );
+
+  async function openPicker() {
+    const selection = await shopify.resourcePicker({
+      type: "product",
+      action: "select",
+      // archived products can't be bought, so they make no sense on a QR
+      filter: { variants: true, archived: false },
+      // reopen on the current pick so the merchant sees what's selected
+      selectionIds: picked
+        ? [{ id: picked.productId, variants: [{ id: picked.variantId }] }]
+        : [],
+    });
+
+    // undefined when the merchant closed the picker without choosing
+    const product = selection?.[0];
+    if (!product) {
+      return;
+    }
+
+    // picking a product without ticking a variant means its first variant
+    const variant = product.variants[0];
+    if (!variant?.id) {
+      return;
+    }
+
+    setPicked({
+      productId: product.id,
+      variantId: variant.id,
+      handle: product.handle,
+      label: getVariantLabel(product.title, variant.title),
+    });
+  }
+
+  return (
+    <div>
+      <span style={{ display: "block", fontSize: "14px", marginBottom: "4px" }}>
+        {label}
+      </span>
+
+      <input
+        type="hidden"
+        name={name}
+        value={
+          picked
+            ? packProductVariant(
+                picked.productId,
+                picked.variantId,
+                picked.handle,
+              )
+            : ""
+        }
+      />
+
+      <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+        <span
+          style={{
+            flex: 1,
+            padding: "8px 10px",
+            borderRadius: "6px",
+            border: "1px solid #d1d5db",
+            fontSize: "14px",
+            color: picked ? "#111827" : "#6b7280",
+          }}
+        >
+          {picked ? picked.label : placeholder}
+        </span>
+        <button
+          type="button"
+          onClick={openPicker}
+          style={{
+            padding: "8px 14px",
+            borderRadius: "6px",
+            border: "1px solid #d1d5db",
+            backgroundColor: "white",
+            fontSize: "14px",
+            cursor: "pointer",
+          }}
+        >
+          {picked ? "Change" : "Select variant"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+import { useState } from "react";
+import { Form } from "react-router";
+
+import { CollectionPicker, type PickedCollection } from "./CollectionPicker";
+
+// --------------------
+// shared types
+// --------------------
+
+// one step of the discount, as saved in the function's config metafield
+export type VolumeTier = {
+  minQuantity: number; // buy at least this many of one product...
+  percentage: number; // ...and get this much off
+};
+
+// one discount as getVolumeDiscount returns it
+export type VolumeDiscount = {
+  id: string; // numeric Shopify id, used in /app/discounts/:id
+  title: string;
+  method: string; // "automatic" | "code"
+  code: string | null; // only for "code" discounts
+  status: string; // "ACTIVE" | "SCHEDULED" | "EXPIRED"
+  startsAt: string;
+  endsAt: string | null;
+  tiers: VolumeTier[];
+  delivery: { percentage: number } | null;
+  collectionIds: string[]; // with tags: the tiers only apply to matching products
+  tags: string[]; // (both empty = every product)
+  collections?: PickedCollection[]; // titles for collectionIds, only on the edit page
+};
+
+// the inputs validateVolumeDiscountForm can reject, plus "form" for Shopify's errors
+type VolumeDiscountFormField =
+  | "form"
+  | "title"
+  | "code"
+  | "startsAt"
+  | "endsAt"
+  | "tiers"
+  | "collectionIds"
+  | "tags"
+  | "deliveryPercentage";
+
+export type VolumeDiscountFormErrors = Partial<
+  Record<VolumeDiscountFormField, string>
+>;
+
+type VolumeDiscountFormProps = {
+  defaultValues?: VolumeDiscount; // the saved discount on the edit page
+  errors?: VolumeDiscountFormErrors;
+  submitLabel: string;
+  submittingLabel: string;
+  isSubmitting: boolean;
+};
+
+// a row in the tier editor also needs a stable key for React
+type EditorTier = { minQuantity: string; percentage: string; key: number };
+
+const inputStyle = {
+  width: "100%",
+  padding: "8px 10px",
+  borderRadius: "6px",
+  border: "1px solid #d1d5db",
+  fontSize: "14px",
+};
+
+const labelStyle = {
+  display: "block",
+  fontSize: "14px",
+  marginBottom: "4px",
+};
+
+const helpTextStyle = {
+  fontSize: "12px",
+  color: "#6b7280",
+  marginTop: "4px",
+};
+
+const smallButtonStyle = {
+  padding: "6px 10px",
+  borderRadius: "6px",
+  border: "1px solid #d1d5db",
+  backgroundColor: "white",
+  fontSize: "13px",
+  cursor: "pointer",
+};
+
+// the example tiers a new discount starts with
+const DEFAULT_TIERS: VolumeTier[] = [
+  { minQuantity: 3, percentage: 5 },
+  { minQuantity: 6, percentage: 10 },
+  { minQuantity: 12, percentage: 15 },
+];
+
+// small red message under a field (renders nothing when there is no error)
+function FieldError({ message }: { message?: string }) {
+  if (!message) {
+    return null;
+  }
+
+  return (
+    <p role="alert" style={{ ...helpTextStyle, color: "#dc2626" }}>
+      {message}
+    </p>
+  );
+}
+
+// "2026-10-19T00:00:00Z" → "2026-10-19" for <input type="date">
+function toDateInput(value?: string | null) {
+  return value ? value.slice(0, 10) : "";
+}
+
+// --------------------
+// React component: volume discount form
+// --------------------
+
+// shared by /app/discounts/new and /app/discounts/:id
+// every tier row posts a "tierMinQuantity" + "tierPercentage" field (read in order)
+export function VolumeDiscountForm({
+  defaultValues,
+  errors = {},
+  submitLabel,
+  submittingLabel,
+  isSubmitting,
+}: VolumeDiscountFormProps) {
+  // automatic and code discounts are different Shopify types, so it's fixed once saved
+  const isEditing = Boolean(defaultValues);
+  const [method, setMethod] = useState(defaultValues?.method ?? "automatic");
+
+  const [tiers, setTiers] = useState<EditorTier[]>(() =>
+    (defaultValues ? defaultValues.tiers : DEFAULT_TIERS).map(
+      (tier, index) => ({
+        minQuantity: String(tier.minQuantity),
+        percentage: String(tier.percentage),
+        key: index,
+      }),
+    ),
+  );
+  const [nextKey, setNextKey] = useState(tiers.length);
+
+  function addTier() {
+    setTiers([...tiers, { minQuantity: "", percentage: "", key: nextKey }]);
+    setNextKey(nextKey + 1);
+  }
+
+  function removeTier(key: number) {
+    setTiers(tiers.filter((tier) => tier.key !== key));
+  }
+
+  return (
+    <Form method="post">
+      {/* Shopify's own messages, e.g. a code that's already in use */}
+      {errors.form && (
+        <p
+          role="alert"
+          style={{ fontSize: "14px", color: "#dc2626", marginBottom: "16px" }}
+        >
+          {errors.form}
+        </p>
+      )}
+
+      <div style={{ marginBottom: "16px" }}>
+        <label htmlFor="title" style={labelStyle}>
+          Title
+        </label>
+        <input
+          id="title"
+          name="title"
+          type="text"
+          defaultValue={defaultValues?.title ?? ""}
+          placeholder="e.g. Stock up and save"
+          style={inputStyle}
+        />
+        <p style={helpTextStyle}>
+          Customers see this in the cart for automatic discounts.
+        </p>
+        <FieldError message={errors.title} />
+      </div>
+
+      <fieldset
+        style={{ border: "none", padding: 0, margin: "0 0 16px" }}
+        disabled={isEditing}
+      >
+        <legend style={labelStyle}>How it applies</legend>
+        <label style={{ display: "block", fontSize: "14px" }}>
+          <input
+            type="radio"
+            name="method"
+            value="automatic"
+            checked={method === "automatic"}
+            onChange={() => setMethod("automatic")}
+          />{" "}
+          Automatically at checkout
+        </label>
+        <label style={{ display: "block", fontSize: "14px" }}>
+          <input
+            type="radio"
+            name="method"
+            value="code"
+            checked={method === "code"}
+            onChange={() => setMethod("code")}
+          />{" "}
+          With a discount code
+        </label>
+      </fieldset>
+
+      {method === "code" && (
+        <div style={{ marginBottom: "16px" }}>
+          <label htmlFor="code" style={labelStyle}>
+            Discount code
+          </label>
+          <input
+            id="code"
+            name="code"
+            type="text"
+            defaultValue={defaultValues?.code ?? ""}
+            placeholder="e.g. BULKBUY"
+            style={inputStyle}
+          />
+          <FieldError message={errors.code} />
+        </div>
+      )}
+
+      {/* the quantity tiers, written to the function's config metafield */}
+      <div style={{ marginBottom: "16px" }}>
+        <p style={labelStyle}>Quantity tiers</p>
+
+        {tiers.map((tier, index) => (
+          <div
+            key={tier.key}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "8px",
+              marginBottom: "8px",
+              fontSize: "14px",
+            }}
+          >
+            Buy
+            <input
+              name="tierMinQuantity"
+              type="number"
+              min={1}
+              aria-label={`Tier ${index + 1} quantity`}
+              defaultValue={tier.minQuantity}
+              style={{ ...inputStyle, width: "80px" }}
+            />
+            or more, get
+            <input
+              name="tierPercentage"
+              type="number"
+              min={0}
+              max={100}
+              step="any"
+              aria-label={`Tier ${index + 1} percentage`}
+              defaultValue={tier.percentage}
+              style={{ ...inputStyle, width: "80px" }}
+            />
+            % off
+            <button
+              type="button"
+              onClick={() => removeTier(tier.key)}
+              style={smallButtonStyle}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+
+        <button type="button" onClick={addTier} style={smallButtonStyle}>
+          + Add tier
+        </button>
+        <p style={helpTextStyle}>
+          Quantities are counted per product (all its variants together). The
+          highest tier reached applies.
+        </p>
+        <FieldError message={errors.tiers} />
+      </div>
+
+      {/* optional targeting, read by the function's input query */}
+      <fieldset style={{ border: "none", padding: 0, margin: "0 0 16px" }}>
+        <legend style={labelStyle}>Limit the tiers to (optional)</legend>
+
+        <CollectionPicker
+          name="collectionId"
+          label="Products in any of these collections"
+          defaultValue={defaultValues?.collections}
+        />
+        <FieldError message={errors.collectionIds} />
+
+        <label htmlFor="tags" style={{ ...labelStyle, marginTop: "12px" }}>
+          Products with any of these tags
+        </label>
+        <input
+          id="tags"
+          name="tags"
+          type="text"
+          defaultValue={defaultValues?.tags.join(", ") ?? ""}
+          placeholder="e.g. bulk, wholesale"
+          style={inputStyle}
+        />
+        <p style={helpTextStyle}>
+          Separate tags with commas. Leave both empty to discount every product.
+        </p>
+        <FieldError message={errors.tags} />
+      </fieldset>
+
+      <div style={{ marginBottom: "16px" }}>
+        <label htmlFor="deliveryPercentage" style={labelStyle}>
+          Delivery discount (%)
+        </label>
+        <input
+          id="deliveryPercentage"
+          name="deliveryPercentage"
+          type="number"
+          min={0}
+          max={100}
+          step="any"
+          defaultValue={defaultValues?.delivery?.percentage ?? ""}
+          placeholder="Leave blank for none, 100 for free delivery"
+          style={inputStyle}
+        />
+        <FieldError message={errors.deliveryPercentage} />
+      </div>
+
+      <div style={{ display: "flex", gap: "12px", marginBottom: "16px" }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="startsAt" style={labelStyle}>
+            Starts
+          </label>
+          <input
+            id="startsAt"
+            name="startsAt"
+            type="date"
+            defaultValue={
+              toDateInput(defaultValues?.startsAt) ||
+              new Date().toISOString().slice(0, 10)
+            }
+            style={inputStyle}
+          />
+          <FieldError message={errors.startsAt} />
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="endsAt" style={labelStyle}>
+            Ends (optional)
+          </label>
+          <input
+            id="endsAt"
+            name="endsAt"
+            type="date"
+            defaultValue={toDateInput(defaultValues?.endsAt)}
+            style={inputStyle}
+          />
+          <FieldError message={errors.endsAt} />
+        </div>
+      </div>
+
+      {/* submit button */}
+      <button
+        type="submit"
+        name="intent"
+        value="save"
+        disabled={isSubmitting}
+        style={{
+          padding: "8px 16px",
+          borderRadius: "6px",
+          border: "none",
+          backgroundColor: "#111827",
+          color: "white",
+          fontSize: "14px",
+          cursor: isSubmitting ? "default" : "pointer",
+        }}
+      >
+        {isSubmitting ? submittingLabel : submitLabel}
+      </button>
+    </Form>
+  );
+}
@@ -0,0 +1,75 @@
+// small helpers for calling the Admin GraphQL API in bulk without hitting the rate limit
+
+// nodes(ids:) accepts up to 250 ids, smaller batches keep each query cheap
+const NODES_BATCH_SIZE = 100;
+
+// never sleep longer than this between batches, even if the bucket is empty
+const MAX_THROTTLE_WAIT_MS = 10_000;
+
+// how many times the client retries a 429 / network error itself
+const QUERY_TRIES = 3;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// this helper works out how long to wait before a query costing `cost` points
+// using the cost extension Shopify sends back with every GraphQL response:
+// { requestedQueryCost, throttleStatus: { currentlyAvailable, restoreRate } }
+export function getThrottleDelay(extensions, cost) {
+  const throttleStatus = extensions?.cost?.throttleStatus;
+
+  if (!throttleStatus || throttleStatus.currentlyAvailable >= cost) {
+    return 0;
+  }
+
+  const missing = cost - throttleStatus.currentlyAvailable;
+  const seconds = missing / Math.max(throttleStatus.restoreRate, 1);
+
+  return Math.min(Math.ceil(seconds * 1000), MAX_THROTTLE_WAIT_MS);
+}
+
+// this function loads many nodes with batched nodes(ids:) queries
+// selection is the GraphQL inside nodes { ... }, usually "... on Product { ... }" fragments
+// returns a Map of id → node (ids that don't exist any more are simply missing)
+export async function getNodesById(graphql, ids, selection) {
+  const nodes = new Map();
+  const uniqueIds = [...new Set(ids.filter(Boolean))];
+
+  let extensions = null;
+
+  for (let start = 0; start < uniqueIds.length; start += NODES_BATCH_SIZE) {
+    const batch = uniqueIds.slice(start, start + NODES_BATCH_SIZE);
+
+    // wait for the leaky bucket to refill enough for another batch like the last one
+    const delay = getThrottleDelay(
+      extensions,
+      extensions?.cost?.requestedQueryCost ?? 0
+    );
+    if (delay > 0) {
+      await sleep(delay);
+    }
+
+    const response = await graphql(
+      `
+        query NodesById($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            id
+            ${selection}
+          }
+        }
+      `,
+      { variables: { ids: batch }, tries: QUERY_TRIES }
+    );
+
+    const json = await response.json();
+    extensions = json.extensions ?? null;
+
+    // nodes returns null for ids that don't exist (deleted products, typos)
+    for (const node of json.data?.nodes ?? []) {
+      if (node?.id) {
+        nodes.set(node.id, node);
+      }
+    }
+  }
+
+  return nodes;
+}
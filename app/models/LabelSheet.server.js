@@ -0,0 +1,313 @@
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib"; // builds the PDF in memory
+import { getQRCodeImageFile } from "./QRCode.server"; // full-size QR PNGs in the saved style
+
+// PDF units are points: 72 per inch
+const INCH = 72;
+const MM = 72 / 25.4;
+
+// one PDF is built in memory with every QR rendered at print resolution,
+// so a request can't ask for more QR codes or labels than this
+export const MAX_LABEL_QR_CODES = 100;
+export const MAX_LABELS = 1000;
+
+const PAGE_SIZES = {
+  letter: { width: 8.5 * INCH, height: 11 * INCH },
+  a4: { width: 210 * MM, height: 297 * MM },
+};
+
+// Avery-style sheets: page size, grid and where the first label starts
+// (numbers come from the label makers' printed template specs)
+export const LABEL_TEMPLATES = {
+  "avery-5160": {
+    name: "Avery 5160 / 8160 – 30 per sheet (2⅝″ × 1″, Letter)",
+    page: "letter",
+    columns: 3,
+    rows: 10,
+    labelWidth: 2.625 * INCH,
+    labelHeight: 1 * INCH,
+    marginTop: 0.5 * INCH,
+    marginLeft: 0.1875 * INCH,
+    gapX: 0.125 * INCH,
+    gapY: 0,
+  },
+  "avery-5163": {
+    name: "Avery 5163 / 8163 – 10 per sheet (4″ × 2″, Letter)",
+    page: "letter",
+    columns: 2,
+    rows: 5,
+    labelWidth: 4 * INCH,
+    labelHeight: 2 * INCH,
+    marginTop: 0.5 * INCH,
+    marginLeft: 0.15625 * INCH,
+    gapX: 0.1875 * INCH,
+    gapY: 0,
+  },
+  "avery-l7160": {
+    name: "Avery L7160 – 21 per sheet (63.5 × 38.1 mm, A4)",
+    page: "a4",
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5 * MM,
+    labelHeight: 38.1 * MM,
+    marginTop: 15.15 * MM,
+    marginLeft: 7.2 * MM,
+    gapX: 2.5 * MM,
+    gapY: 0,
+  },
+  "avery-l7163": {
+    name: "Avery L7163 – 14 per sheet (99.1 × 38.1 mm, A4)",
+    page: "a4",
+    columns: 2,
+    rows: 7,
+    labelWidth: 99.1 * MM,
+    labelHeight: 38.1 * MM,
+    marginTop: 15.15 * MM,
+    marginLeft: 4.65 * MM,
+    gapX: 2.5 * MM,
+    gapY: 0,
+  },
+};
+
+// QR images are rendered for this print resolution
+// (within the 64–4096 px sizes parseQRStyle allows)
+const PRINT_DPI = 300;
+
+// space kept free around a custom grid, and between custom labels
+const CUSTOM_PAGE_MARGIN = 10 * MM;
+const CUSTOM_GAP = 3 * MM;
+
+// this helper builds a grid for a custom label size (in mm)
+// as many labels as fit on the page, centred
+function getCustomTemplate(page, labelWidthMm, labelHeightMm) {
+  const pageSize = PAGE_SIZES[page];
+  const labelWidth = labelWidthMm * MM;
+  const labelHeight = labelHeightMm * MM;
+
+  const usableWidth = pageSize.width - CUSTOM_PAGE_MARGIN * 2;
+  const usableHeight = pageSize.height - CUSTOM_PAGE_MARGIN * 2;
+
+  const columns = Math.floor(
+    (usableWidth + CUSTOM_GAP) / (labelWidth + CUSTOM_GAP)
+  );
+  const rows = Math.floor(
+    (usableHeight + CUSTOM_GAP) / (labelHeight + CUSTOM_GAP)
+  );
+
+  if (columns < 1 || rows < 1) {
+    throw new Response("That label size doesn't fit on the page.", {
+      status: 400,
+    });
+  }
+
+  const gridWidth = columns * labelWidth + (columns - 1) * CUSTOM_GAP;
+  const gridHeight = rows * labelHeight + (rows - 1) * CUSTOM_GAP;
+
+  return {
+    page,
+    columns,
+    rows,
+    labelWidth,
+    labelHeight,
+    marginTop: (pageSize.height - gridHeight) / 2,
+    marginLeft: (pageSize.width - gridWidth) / 2,
+    gapX: CUSTOM_GAP,
+    gapY: CUSTOM_GAP,
+  };
+}
+
+// this helper reads the template fields from the labels form
+// templateId is one of LABEL_TEMPLATES or "custom" (+ page, width, height in mm)
+export function getLabelTemplate(formData) {
+  const templateId = String(formData.get("template") || "avery-5160");
+
+  if (templateId !== "custom") {
+    const template = LABEL_TEMPLATES[templateId];
+
+    if (!template) {
+      throw new Response("Unknown label template.", { status: 400 });
+    }
+    return template;
+  }
+
+  const page = String(formData.get("page") || "letter");
+  const width = Number(formData.get("labelWidth"));
+  const height = Number(formData.get("labelHeight"));
+
+  if (!PAGE_SIZES[page]) {
+    throw new Response("Page size must be letter or a4.", { status: 400 });
+  }
+
+  if (!(width >= 20 && width <= 200) || !(height >= 20 && height <= 280)) {
+    throw new Response(
+      "Custom labels must be 20–200 mm wide and 20–280 mm tall.",
+      { status: 400 }
+    );
+  }
+
+  return getCustomTemplate(page, width, height);
+}
+
+// the standard PDF fonts only know Latin-1, so anything else becomes "?"
+function toPdfText(text) {
+  return String(text ?? "").replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+}
+
+// this helper cuts text with "…"-style dots so it fits in maxWidth
+function fitText(text, font, size, maxWidth) {
+  let value = toPdfText(text);
+
+  if (font.widthOfTextAtSize(value, size) <= maxWidth) {
+    return value;
+  }
+
+  while (value.length > 0 && font.widthOfTextAtSize(`${value}...`, size) > maxWidth) {
+    value = value.slice(0, -1);
+  }
+
+  return `${value}...`;
+}
+
+// this function draws one label: QR image + title + product name
+// wide labels put the text beside the QR, squarish ones put it underneath
+function drawLabel(page, { x, y, width, height }, label, fonts) {
+  const padding = Math.min(width, height) * 0.08;
+  const wide = width >= height * 1.5;
+
+  const titleSize = Math.max(6, Math.min(11, height * 0.14));
+  const productSize = titleSize * 0.85;
+  const textBlockHeight = titleSize + productSize + 4;
+
+  const qrSize = wide
+    ? Math.min(height - padding * 2, width * 0.45)
+    : Math.min(width - padding * 2, height - padding * 3 - textBlockHeight);
+
+  if (wide) {
+    // QR on the left, vertically centred
+    page.drawImage(label.image, {
+      x: x + padding,
+      y: y + (height - qrSize) / 2,
+      width: qrSize,
+      height: qrSize,
+    });
+
+    const textX = x + padding * 2 + qrSize;
+    const textWidth = width - qrSize - padding * 3;
+    const textTop = y + height / 2 + textBlockHeight / 2;
+
+    page.drawText(fitText(label.title, fonts.bold, titleSize, textWidth), {
+      x: textX,
+      y: textTop - titleSize,
+      size: titleSize,
+      font: fonts.bold,
+    });
+    page.drawText(
+      fitText(label.productTitle, fonts.regular, productSize, textWidth),
+      {
+        x: textX,
+        y: textTop - titleSize - 4 - productSize,
+        size: productSize,
+        font: fonts.regular,
+        color: rgb(0.3, 0.3, 0.3),
+      }
+    );
+    return;
+  }
+
+  // QR on top, centred, text lines below it
+  const textWidth = width - padding * 2;
+  page.drawImage(label.image, {
+    x: x + (width - qrSize) / 2,
+    y: y + height - padding - qrSize,
+    width: qrSize,
+    height: qrSize,
+  });
+  page.drawText(fitText(label.title, fonts.bold, titleSize, textWidth), {
+    x: x + padding,
+    y: y + padding + productSize + 4,
+    size: titleSize,
+    font: fonts.bold,
+  });
+  page.drawText(
+    fitText(label.productTitle, fonts.regular, productSize, textWidth),
+    {
+      x: x + padding,
+      y: y + padding,
+      size: productSize,
+      font: fonts.regular,
+      color: rgb(0.3, 0.3, 0.3),
+    }
+  );
+}
+
+// this helper picks the PNG size for a template's labels: the QR is never drawn
+// bigger than the label's short side, so that at PRINT_DPI is sharp enough
+function getLabelImageSize(template) {
+  const inches = Math.min(template.labelWidth, template.labelHeight) / INCH;
+  return Math.min(4096, Math.max(64, Math.ceil(inches * PRINT_DPI)));
+}
+
+// this function builds the PDF of label sheets
+// qrCodes come from getQRCodesForLabels (QR rows with productTitle)
+// copies is how many labels to print per QR code
+// returns the PDF bytes (Uint8Array)
+export async function renderLabelSheet(qrCodes, template, copies = 1) {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle("QR code labels");
+
+  const fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  // embed each QR image once, even if it is printed many times
+  const imageSize = getLabelImageSize(template);
+  const labels = [];
+  for (const qrCode of qrCodes) {
+    const { body } = await getQRCodeImageFile(qrCode, "png", { imageSize });
+    const image = await pdf.embedPng(body);
+
+    for (let copy = 0; copy < copies; copy += 1) {
+      labels.push({
+        image,
+        title: qrCode.title,
+        productTitle: qrCode.productTitle ?? "",
+      });
+    }
+  }
+
+  const pageSize = PAGE_SIZES[template.page];
+  const perPage = template.columns * template.rows;
+
+  let page = null;
+  labels.forEach((label, index) => {
+    const slot = index % perPage;
+
+    if (slot === 0) {
+      page = pdf.addPage([pageSize.width, pageSize.height]);
+    }
+
+    const column = slot % template.columns;
+    const row = Math.floor(slot / template.columns);
+
+    // PDF y goes up from the bottom of the page, labels are laid out from the top
+    const x = template.marginLeft + column * (template.labelWidth + template.gapX);
+    const top =
+      pageSize.height -
+      template.marginTop -
+      row * (template.labelHeight + template.gapY);
+
+    drawLabel(
+      page,
+      {
+        x,
+        y: top - template.labelHeight,
+        width: template.labelWidth,
+        height: template.labelHeight,
+      },
+      label,
+      fonts
+    );
+  });
+
+  return pdf.save();
+}
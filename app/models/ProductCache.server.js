@@ -0,0 +1,137 @@
+import db from "../db.server"; // this is the Prisma client already set up
+import { getNodesById } from "./AdminApi.server"; // batched, rate-limit aware nodes(ids:) lookups
+
+// QR rows keep a copy of the product fields the admin shows (title, image, variant, price)
+// so list pages don't call the Admin API on every render.
+// the product + variant titles are written when a QR is created (list search uses them),
+// the rest is filled the first time a row is shown, then all of it is kept fresh by the
+// products/update + products/delete webhooks (see webhooks.products.*.tsx)
+
+// the product + variant fields we cache
+const PRODUCT_NODE_FIELDS = `
+  ... on Product {
+    title
+    status
+    featuredImage {
+      url
+    }
+  }
+  ... on ProductVariant {
+    title
+    price
+  }
+`;
+
+// this helper fills the cache for rows that don't have it yet (productSyncedAt is null)
+// returns the rows with the cached fields set, in the same order
+export async function ensureProductCache(qrCodes, graphql) {
+  const missing = qrCodes.filter((qrCode) => !qrCode.productSyncedAt);
+
+  if (missing.length === 0) {
+    return qrCodes;
+  }
+
+  const nodes = await getNodesById(
+    graphql,
+    missing.flatMap((qrCode) => [qrCode.productId, qrCode.productVariantId]),
+    PRODUCT_NODE_FIELDS
+  );
+
+  const syncedAt = new Date();
+  const cached = new Map();
+
+  for (const qrCode of missing) {
+    const product = nodes.get(qrCode.productId);
+    const variant = nodes.get(qrCode.productVariantId);
+
+    cached.set(qrCode.id, {
+      productTitle: product?.title ?? null,
+      productImage: product?.featuredImage?.url ?? null,
+      variantTitle: variant?.title ?? null,
+      price: variant?.price ?? null,
+      // a missing product / variant or an archived product can't be bought any more
+      productDeleted: !product || !variant || product.status === "ARCHIVED",
+      productSyncedAt: syncedAt,
+    });
+  }
+
+  // one transaction so a long list is a single write
+  await db.$transaction(
+    [...cached].map(([id, data]) => db.qRCode.update({ where: { id }, data }))
+  );
+
+  return qrCodes.map((qrCode) =>
+    cached.has(qrCode.id) ? { ...qrCode, ...cached.get(qrCode.id) } : qrCode
+  );
+}
+
+// this function copies a products/update webhook payload onto the shop's QR rows
+// the payload is the REST product JSON (admin_graphql_api_id, title, handle, image, variants)
+export async function updateProductCache(shop, product) {
+  const productId = product.admin_graphql_api_id;
+  const syncedAt = new Date();
+
+  // the handle is part of product URLs, so a renamed handle must follow too
+  const writes = [
+    db.qRCode.updateMany({
+      where: { shop, productId },
+      data: {
+        productTitle: product.title,
+        productHandle: product.handle,
+        productImage: product.image?.src ?? product.images?.[0]?.src ?? null,
+        productDeleted: product.status === "archived",
+        productSyncedAt: syncedAt,
+      },
+    }),
+  ];
+
+  // QRs for a variant that was removed from the product are flagged too
+  // (only when the payload lists variants, every product has at least one)
+  if (product.variants?.length) {
+    const variantIds = product.variants.map(
+      (variant) => variant.admin_graphql_api_id
+    );
+
+    writes.push(
+      db.qRCode.updateMany({
+        where: { shop, productId, productVariantId: { notIn: variantIds } },
+        data: { productDeleted: true, variantTitle: null, price: null },
+      })
+    );
+  }
+
+  for (const variant of product.variants ?? []) {
+    writes.push(
+      db.qRCode.updateMany({
+        where: {
+          shop,
+          productId,
+          productVariantId: variant.admin_graphql_api_id,
+        },
+        data: {
+          variantTitle: variant.title,
+          price: variant.price == null ? null : String(variant.price),
+        },
+      })
+    );
+  }
+
+  await db.$transaction(writes);
+}
+
+// this function flags QR rows whose product was deleted and clears their cached fields
+// scans for these rows go to the QR's fallback (see getDestinationUrl)
+// (products/delete only sends the numeric id)
+export async function markProductDeleted(shop, productNumericId) {
+  await db.qRCode.updateMany({
+    where: { shop, productId: `gid://shopify/Product/${productNumericId}` },
+    data: {
+      productTitle: null,
+      productImage: null,
+      variantTitle: null,
+      price: null,
+      productDeleted: true,
+      productSyncedAt: new Date(),
+    },
+  });
+}
@@ -0,0 +1,289 @@
+import db from "../db.server"; // this is the Prisma client already set up
+import { getNodesById } from "./AdminApi.server"; // batched, rate-limit aware nodes(ids:) lookups
+import {
+  appDiscountExists,
+  createVolumeDiscount,
+  deleteVolumeDiscount,
+  setVolumeDiscountConfig,
+} from "./VolumeDiscount.server";
+
+// ProductDiscount rows are a flat "X% off this product" list per shop.
+// the function only reads metafields, so every change is copied into the config
+// of one automatic discount the app manages (created on the first row, deleted
+// with the last one), as { products: [{ productId, percentage, message }] }
+// its id + whether the last copy went through live in ProductDiscountSync
+
+// title of that automatic discount in Shopify admin
+const SYNCED_DISCOUNT_TITLE = "Product discounts";
+
+const MAX_TITLE_LENGTH = 255;
+const PRODUCT_GID = /^gid:\/\/shopify\/Product\/[0-9]+$/;
+
+// this helper adds the current product title to each row (null if it was deleted)
+async function withProductTitles(rows, graphql) {
+  const nodes = await getNodesById(
+    graphql,
+    rows.map((row) => row.productId),
+    `... on Product { title }`
+  );
+
+  return rows.map((row) => ({
+    ...row,
+    productTitle: nodes.get(row.productId)?.title ?? null,
+  }));
+}
+
+// this function lists the shop's product discounts, newest first
+export async function getProductDiscounts(shop, graphql) {
+  const rows = await db.productDiscount.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return withProductTitles(rows, graphql);
+}
+
+// this function loads one product discount of the shop, or null
+export async function getProductDiscount(id, shop, graphql) {
+  const row = await db.productDiscount.findFirst({ where: { id, shop } });
+
+  if (!row) {
+    return null;
+  }
+
+  const [productDiscount] = await withProductTitles([row], graphql);
+  return productDiscount;
+}
+
+// this function reads + checks the product discount form
+// returns { fields } when everything is valid, or { errors } keyed by field name
+// id is the row being edited (null on create), so it doesn't clash with itself
+export async function validateProductDiscountForm(formData, shop, id) {
+  const errors = {};
+
+  const title = String(formData.get("title") || "").trim();
+
+  if (!title) {
+    errors.title = "Please enter a title, customers see it in the cart.";
+  } else if (title.length > MAX_TITLE_LENGTH) {
+    errors.title = `Titles can be at most ${MAX_TITLE_LENGTH} characters.`;
+  }
+
+  // the column is an Int, so whole percentages only
+  const percentage = Number(formData.get("percentage"));
+
+  if (!Number.isInteger(percentage) || percentage < 1 || percentage > 100) {
+    errors.percentage = "The percentage must be a whole number from 1 to 100.";
+  }
+
+  const productId = String(formData.get("productId") || "");
+
+  if (!PRODUCT_GID.test(productId)) {
+    errors.productId = "Please select a product.";
+  } else {
+    // the function applies one percentage per product
+    const existing = await db.productDiscount.findFirst({
+      where: { shop, productId, ...(id ? { id: { not: id } } : {}) },
+      select: { title: true },
+    });
+
+    if (existing) {
+      errors.productId = `This product already has a discount ("${existing.title}").`;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return { fields: { title, percentage, productId } };
+}
+
+// this helper writes the shop's rows into the synced discount's config
+// returns null when Shopify has them, or { form } when it rejected the write
+// (a rejected write leaves the discount as it was)
+async function pushProductDiscounts(shop, graphql) {
+  const rows = await db.productDiscount.findMany({
+    where: { shop },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const sync = await db.productDiscountSync.findUnique({ where: { shop } });
+
+  // the merchant may have deleted the discount in Shopify admin, then we start over
+  let discountId = sync?.discountId ?? null;
+  if (discountId && !(await appDiscountExists(graphql, discountId))) {
+    discountId = null;
+  }
+
+  if (rows.length === 0) {
+    if (discountId) {
+      await deleteVolumeDiscount(graphql, discountId, "automatic");
+    }
+    await db.productDiscountSync.update({
+      where: { shop },
+      data: { discountId: null },
+    });
+    return null;
+  }
+
+  // collectionIds + tags are also the function's input query variables,
+  // so they're written out even though product discounts don't narrow by them
+  const config = {
+    tiers: [],
+    delivery: null,
+    collectionIds: [],
+    tags: [],
+    products: rows.map((row) => ({
+      productId: row.productId,
+      percentage: row.percentage,
+      message: row.title,
+    })),
+  };
+
+  if (discountId) {
+    return setVolumeDiscountConfig(graphql, discountId, "automatic", config);
+  }
+
+  const result = await createVolumeDiscount(graphql, {
+    title: SYNCED_DISCOUNT_TITLE,
+    method: "automatic",
+    code: null,
+    startsAt: new Date().toISOString(),
+    endsAt: null,
+    config,
+  });
+
+  if (result.errors) {
+    return result.errors;
+  }
+
+  // saved straight away, so the next sync updates this discount instead of adding one
+  await db.productDiscountSync.update({
+    where: { shop },
+    data: { discountId: result.id },
+  });
+
+  return null;
+}
+
+// this helper copies the shop's rows to Shopify and records how it went
+// returns { form } when Shopify rejected the config, null otherwise
+// when Shopify can't be reached we can't tell what it applied, so the sync stays
+// pending and retryProductDiscountSync tries again from the list page
+async function syncProductDiscounts(shop, graphql) {
+  const pendingSince = new Date();
+
+  await db.productDiscountSync.upsert({
+    where: { shop },
+    create: { shop, pendingSince },
+    update: { pendingSince },
+  });
+
+  let errors;
+  try {
+    errors = await pushProductDiscounts(shop, graphql);
+  } catch (error) {
+    console.error("Product discount sync failed", error);
+    await db.productDiscountSync.update({
+      where: { shop },
+      data: { lastError: "Shopify couldn't be reached." },
+    });
+    return null;
+  }
+
+  // a rejected write stays pending, the caller puts the rows back the way they were
+  await db.productDiscountSync.update({
+    where: { shop },
+    data: errors
+      ? { lastError: errors.form }
+      : { pendingSince: null, lastError: null },
+  });
+
+  return errors;
+}
+
+// this helper turns Shopify's rejection into the 400 Response the routes show
+function getSyncErrorResponse(errors) {
+  return new Response(`Shopify didn't accept the discount: ${errors.form}`, {
+    status: 400,
+  });
+}
+
+// this function syncs again if an earlier change didn't reach Shopify
+// returns the error that still stands, or null when Shopify is up to date
+export async function retryProductDiscountSync(shop, graphql) {
+  const sync = await db.productDiscountSync.findUnique({ where: { shop } });
+
+  if (!sync?.pendingSince) {
+    return null;
+  }
+
+  await syncProductDiscounts(shop, graphql);
+
+  const retried = await db.productDiscountSync.findUnique({ where: { shop } });
+
+  return retried?.pendingSince ? retried.lastError : null;
+}
+
+// this function saves a new product discount and syncs it to the function
+// throws a 400 Response (and removes the row again) when Shopify rejects it
+export async function createProductDiscount(shop, graphql, fields) {
+  const productDiscount = await db.productDiscount.create({
+    data: { ...fields, shop },
+  });
+
+  const errors = await syncProductDiscounts(shop, graphql);
+
+  if (errors) {
+    await db.productDiscount.delete({ where: { id: productDiscount.id } });
+    throw getSyncErrorResponse(errors);
+  }
+
+  return productDiscount;
+}
+
+// this function saves the edit form and syncs it to the function
+// returns false when the row doesn't exist in this shop
+// throws a 400 Response (and restores the row) when Shopify rejects it
+export async function updateProductDiscount(id, shop, graphql, fields) {
+  const previous = await db.productDiscount.findFirst({ where: { id, shop } });
+
+  if (!previous) {
+    return false;
+  }
+
+  await db.productDiscount.update({ where: { id }, data: fields });
+
+  const errors = await syncProductDiscounts(shop, graphql);
+
+  if (errors) {
+    const { title, percentage, productId } = previous;
+    await db.productDiscount.update({
+      where: { id },
+      data: { title, percentage, productId },
+    });
+    throw getSyncErrorResponse(errors);
+  }
+
+  return true;
+}
+
+// this function deletes a product discount and syncs the rest to the function
+// throws a 400 Response (and puts the row back) when Shopify rejects it
+export async function deleteProductDiscount(id, shop, graphql) {
+  const previous = await db.productDiscount.findFirst({ where: { id, shop } });
+
+  if (!previous) {
+    return;
+  }
+
+  await db.productDiscount.delete({ where: { id } });
+
+  const errors = await syncProductDiscounts(shop, graphql);
+
+  if (errors) {
+    await db.productDiscount.create({ data: previous });
+    throw getSyncErrorResponse(errors);
+  }
+}
@@ -1,6 +1,27 @@
-import qrcode from "qrcode";              // this library creates QR code image data
 import invariant from "tiny-invariant";   // this helps throw clear errors
+import { randomInt } from "node:crypto"; // random scan URL slugs
 import db from "../db.server";            // this is the Prisma client already set up
+import { getScanDetails, getScanExclusion } from "./QRScan.server"; // scan request details + bot / repeat checks
+import {
+  getStoredQRStyle,
+  renderQRCode,
+  renderQRCodePreview,
+  canDecodeQRCode,
+} from "./QRCodeImage.server"; // colours, size, error correction + PNG/SVG output
+import { getShopLogo } from "./ShopBranding.server"; // the uploaded shop logo for branded QRs
+import { ensureProductCache } from "./ProductCache.server"; // cached product title, image, price
+import { getNodesById } from "./AdminApi.server"; // batched, rate-limit aware nodes(ids:) lookups
+
+// scan URL slugs are 8 characters of 0-9 a-z A-Z (62^8, about 2 * 10^14 values)
+// so nobody can guess another QR's URL from their own
+const SLUG_ALPHABET =
+  "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const SLUG_LENGTH = 8;
+
+// cart lines are always loaded in the order they were entered in the form
+const LINE_ITEMS_INCLUDE = {
+  lineItems: { orderBy: { position: "asc" } },
+};
 
 // this function gets one QR code by id and also loads product data later
 // Looks up one QR by id in the QRCode table.
@@ -10,6 +31,7 @@ export async function getQRCode(id, graphql) {
   // findFirst will look up one row in the QRCode table that matches the id
   const qrCode = await db.qRCode.findFirst({
     where: { id: id }, // using id: id so it feels more explicit
+    include: LINE_ITEMS_INCLUDE, // cart lines for the editor
   });
 
   // if no QR code is found, we return null so the UI can show "not found"
@@ -22,30 +44,144 @@ export async function getQRCode(id, graphql) {
   return fullQRCode;
 }
 
-// this function gets all QRs for a specific shop (used for the main list page)
-export async function getQRCodes(shop, graphql) {
-  // get all QR codes that belong to this shop
+// this function gets just the titles of the QRs picked for label printing
+// (the labels page only lists them, nothing is rendered or looked up)
+export async function getQRCodeTitles(shop, ids) {
+  return db.qRCode.findMany({
+    where: { shop, id: { in: ids } },
+    select: { id: true, title: true, productTitle: true },
+    orderBy: { id: "desc" }, // newest first, like the list page
+  });
+}
+
+// this function gets the rows to print on labels, with cached product titles
+// no preview images: the label sheet renders its own at print resolution
+export async function getQRCodesForLabels(shop, graphql, ids) {
   const qrCodes = await db.qRCode.findMany({
-    where: { shop: shop },  // only rows for this shop
-    orderBy: { id: "desc" } // newest first
+    where: { shop, id: { in: ids } },
+    orderBy: { id: "desc" },
   });
 
-  // if the shop has no QR codes yet, just return an empty list
-  if (qrCodes.length === 0) {
-    return [];
+  return ensureProductCache(qrCodes, graphql);
+}
+
+// how many QR codes the list page shows at a time
+export const QR_LIST_PAGE_SIZE = 25;
+
+// the list page can be sorted by these, "created" (newest first) is the default
+export const QR_LIST_SORTS = ["created", "scans", "title"];
+
+const QR_LIST_SORT_FIELDS = {
+  created: "createdAt",
+  scans: "scans",
+  title: "title",
+};
+
+// this helper reads the list page options from the URL query string
+// ?q=&destination=&status=active|deleted&from=YYYY-MM-DD&to=YYYY-MM-DD&sort=&dir=&after=<id>|before=<id>
+// unknown values are dropped, so a hand-edited URL still shows a list
+export function getQRCodeListParams(searchParams) {
+  const sort = searchParams.get("sort");
+  const dir = searchParams.get("dir");
+  const destination = searchParams.get("destination");
+  const after = Number(searchParams.get("after"));
+  const before = Number(searchParams.get("before"));
+  const isDate = (value) =>
+    /^\d{4}-\d{2}-\d{2}$/.test(value ?? "") &&
+    !Number.isNaN(Date.parse(value));
+
+  return {
+    q: (searchParams.get("q") ?? "").trim(),
+    destination: DESTINATIONS.includes(destination) ? destination : "",
+    status: ["active", "deleted"].includes(searchParams.get("status"))
+      ? searchParams.get("status")
+      : "",
+    from: isDate(searchParams.get("from")) ? searchParams.get("from") : "",
+    to: isDate(searchParams.get("to")) ? searchParams.get("to") : "",
+    sort: QR_LIST_SORTS.includes(sort) ? sort : "created",
+    dir: dir === "asc" || dir === "desc" ? dir : "",
+    after: Number.isInteger(after) && after > 0 ? after : null,
+    before: Number.isInteger(before) && before > 0 ? before : null,
+  };
+}
+
+// this helper turns the list params into a Prisma where clause
+function getQRCodeListWhere(shop, params) {
+  const where = { shop };
+
+  // SQLite's LIKE (used by contains) ignores case for ASCII letters
+  if (params.q) {
+    where.OR = [
+      { title: { contains: params.q } },
+      { productTitle: { contains: params.q } },
+      { productHandle: { contains: params.q } },
+    ];
   }
 
-  // we create a new list and fill it one by one
-  // this is easy to read even if it is not the most optimized
-  const fullQRCodes = [];
+  if (params.destination) {
+    where.destination = params.destination;
+  }
 
-  for (const qrCode of qrCodes) {
-    const fullQRCode = await supplementQRCode(qrCode, graphql);
-    fullQRCodes.push(fullQRCode);
+  // "deleted" = the product was deleted / archived (see ProductCache.server.js)
+  if (params.status) {
+    where.productDeleted = params.status === "deleted";
   }
 
-  // final list of QR codes with product info + image
-  return fullQRCodes;
+  // "to" includes the whole day, so it compares against the next midnight
+  if (params.from || params.to) {
+    where.createdAt = {};
+    if (params.from) {
+      where.createdAt.gte = new Date(`${params.from}T00:00:00.000Z`);
+    }
+    if (params.to) {
+      const end = new Date(`${params.to}T00:00:00.000Z`);
+      end.setUTCDate(end.getUTCDate() + 1);
+      where.createdAt.lt = end;
+    }
+  }
+
+  return where;
+}
+
+// this function gets one page of the shop's QR list (used by the main list page)
+// it uses cursor pagination: "after" / "before" are the ids of the last / first row
+// of the page the merchant came from, so pages don't shift when new QRs are added
+// returns { qrCodes, totalCount, hasPrevious, hasNext }
+export async function getQRCodePage(shop, graphql, params) {
+  const where = getQRCodeListWhere(shop, params);
+
+  // titles read best A → Z, numbers and dates biggest / newest first
+  const dir = params.dir || (params.sort === "title" ? "asc" : "desc");
+
+  // id breaks ties (lots of QRs have 0 scans) so the cursor order is stable
+  const orderBy = [{ [QR_LIST_SORT_FIELDS[params.sort]]: dir }, { id: dir }];
+
+  const cursorId = params.after ?? params.before;
+  const backwards = params.before != null && params.after == null;
+
+  // one extra row tells us whether there is another page in that direction
+  const rows = await db.qRCode.findMany({
+    where,
+    orderBy,
+    take: backwards ? -(QR_LIST_PAGE_SIZE + 1) : QR_LIST_PAGE_SIZE + 1,
+    ...(cursorId ? { cursor: { id: cursorId }, skip: 1 } : {}),
+  });
+
+  const hasMore = rows.length > QR_LIST_PAGE_SIZE;
+  const pageRows = hasMore
+    ? backwards
+      ? rows.slice(1)
+      : rows.slice(0, QR_LIST_PAGE_SIZE)
+    : rows;
+
+  const totalCount = await db.qRCode.count({ where });
+
+  return {
+    qrCodes: await supplementQRCodes(pageRows, graphql),
+    totalCount,
+    hasPrevious: backwards ? hasMore : cursorId != null,
+    hasNext: backwards ? true : hasMore,
+  };
 }
 
 // finds the latest QR code row for a given shop + product
@@ -67,8 +203,155 @@ export async function getQRCodeForProduct(shop, productHandle) {
   return qrCode;
 }
 
-// this helper builds a QR image as a data URL that the React UI can show
-export function getQRCodeImage(id) {
+// the destinations a QR can send customers to (stored in QRCode.destination)
+// - "product"    → the product page
+// - "cart"       → adds the variant to the cart and shows the cart
+// - "checkout"   → cart permalink, goes straight to checkout (the reorder default)
+// - "collection" → a collection page (collectionHandle column)
+// - "url"        → any URL on the shop's own domain (customUrl column)
+export const DESTINATIONS = ["product", "cart", "checkout", "collection", "url"];
+
+// this function loads the collections a QR can send customers to
+export async function getCollectionOptions(graphql) {
+  const response = await graphql(
+    `
+      query CollectionsForQR {
+        collections(first: 50, sortKey: TITLE) {
+          edges {
+            node {
+              id
+              title
+              handle
+            }
+          }
+        }
+      }
+    `
+  );
+
+  const { data } = await response.json();
+
+  return (
+    data?.collections?.edges?.map((edge) => ({
+      id: edge.node.id,
+      title: edge.node.title,
+      handle: edge.node.handle,
+    })) ?? []
+  );
+}
+
+// this function loads what the variant pickers show for saved variant ids
+// returns a Map of variantId → { productId, variantId, handle, productTitle, variantTitle }
+// (variants that are gone are left out)
+export async function getVariantSummaries(graphql, variantIds) {
+  const nodes = await getNodesById(
+    graphql,
+    variantIds,
+    `... on ProductVariant { title product { id title handle } }`
+  );
+
+  const summaries = new Map();
+  nodes.forEach((variant, variantId) => {
+    if (variant?.product) {
+      summaries.set(variantId, {
+        productId: variant.product.id,
+        variantId,
+        handle: variant.product.handle,
+        productTitle: variant.product.title,
+        variantTitle: variant.title,
+      });
+    }
+  });
+
+  return summaries;
+}
+
+// this function loads what the variant picker shows for one saved variant id
+// returns { productId, variantId, handle, productTitle, variantTitle } or null if it's gone
+export async function getVariantSummary(graphql, variantId) {
+  if (!variantId) {
+    return null;
+  }
+
+  const summaries = await getVariantSummaries(graphql, [variantId]);
+
+  return summaries.get(variantId) ?? null;
+}
+
+// this function creates a QRCode row together with its cart lines
+export async function createQRCode(shop, fields) {
+  const { lineItems, ...columns } = fields;
+
+  // loaded before the transaction so the check inside it is pure CPU work
+  const logo = columns.showLogo ? await getShopLogo(shop) : null;
+
+  return db.$transaction(async (tx) => {
+    const qrCode = await tx.qRCode.create({
+      data: {
+        ...columns,
+        shop,
+        slug: createQRCodeSlug(),
+        lineItems: { create: lineItems },
+        // scans defaults to 0 and createdAt defaults to now() from Prisma
+      },
+    });
+
+    // throwing here rolls the insert back, so an unreadable QR is never saved
+    await assertQRCodeDecodes(qrCode, logo);
+
+    return qrCode;
+  });
+}
+
+// this function saves the edit form for one QR code
+// the cart lines are replaced as a whole, it's simpler than diffing rows
+// returns false when the QR doesn't exist in this shop
+export async function updateQRCode(id, shop, fields) {
+  const { lineItems, ...columns } = fields;
+
+  // loaded before the transaction so the check inside it is pure CPU work
+  const logo = columns.showLogo ? await getShopLogo(shop) : null;
+
+  return db.$transaction(async (tx) => {
+    // updateMany lets us also match on shop, so we never touch another shop's row
+    // the product / variant may have changed, so the cached product fields
+    // are refilled the next time the QR is shown
+    const result = await tx.qRCode.updateMany({
+      where: { id, shop },
+      // (validateQRCodeForm just checked the variant exists in the shop)
+      data: { ...columns, productSyncedAt: null, productDeleted: false },
+    });
+
+    if (result.count === 0) {
+      return false;
+    }
+
+    await tx.qRCodeLineItem.deleteMany({ where: { qrCodeId: id } });
+    await tx.qRCodeLineItem.createMany({
+      data: lineItems.map((line) => ({ ...line, qrCodeId: id })),
+    });
+
+    // same check as on create, against the saved style
+    const qrCode = await tx.qRCode.findUnique({ where: { id } });
+    await assertQRCodeDecodes(qrCode, logo);
+
+    return true;
+  });
+}
+
+// this helper makes a new random slug for a QR's scan URL
+// the slug column is unique, so the (very unlikely) clash fails the insert instead of sharing a URL
+export function createQRCodeSlug() {
+  let slug = "";
+  for (let i = 0; i < SLUG_LENGTH; i++) {
+    slug += SLUG_ALPHABET[randomInt(SLUG_ALPHABET.length)];
+  }
+  return slug;
+}
+
+// this helper builds the public URL a QR code encodes
+// it uses the random slug, the autoincrement id would tell how many QRs exist
+export function getScanUrl(slug) {
   // the scan URL is where customers will land when they scan the code
   const baseUrl = process.env.SHOPIFY_APP_URL;
 
@@ -77,113 +360,282 @@ export function getQRCodeImage(id) {
     throw new Error("SHOPIFY_APP_URL is not set in the environment");
   }
 
-  const url = new URL(`/qrcodes/${id}/scan`, baseUrl);
+  return new URL(`/q/${slug}`, baseUrl).href;
+}
+
+// this helper loads the shop logo only for QRs that want it
+function getLogoFor(qrCode) {
+  return qrCode.showLogo ? getShopLogo(qrCode.shop) : null;
+}
+
+// this helper makes sure a branded QR still scans with the logo on top
+// plain QRs are always readable, so they skip the (slower) decode check
+async function assertQRCodeDecodes(qrCode, logo) {
+  if (!qrCode.showLogo) {
+    return;
+  }
+
+  if (!logo) {
+    throw new Response("Upload a logo on the Branding page first.", {
+      status: 400,
+    });
+  }
+
+  const readable = await canDecodeQRCode(
+    getScanUrl(qrCode.slug),
+    getStoredQRStyle(qrCode),
+    logo
+  );
 
-  // qrcode.toDataURL gives us a base64 image string we can put inside <img src="...">
-  return qrcode.toDataURL(url.href);
+  if (!readable) {
+    throw new Response(
+      "This QR can't be scanned with the logo on it. Try more contrast between the colours or a smaller margin.",
+      { status: 400 }
+    );
+  }
 }
 
-// this helper figures out where this QR should send customers
-export function getDestinationUrl(qrCode) {
-  // "product" means send to the product page
-  // In this app we are focusing on "reorder" use case,
-  // so we always send the customer straight to checkout with the product alr inside there cart
-  // So it shows products already in the cart instead of showing the product page first.
+// this helper builds a QR image as a data URL that the React UI can show
+// it uses the QR's saved style (and logo), at a small preview size
+export async function getQRCodeImage(qrCode) {
+  // gives us a base64 image string we can put inside <img src="...">
+  return renderQRCodePreview(
+    getScanUrl(qrCode.slug),
+    getStoredQRStyle(qrCode),
+    await getLogoFor(qrCode)
+  );
+}
 
-  // we expect a variant id and build a "direct to checkout" URL
+// this helper renders the full-size QR file (PNG or SVG) for downloads / printing
+// overrides (e.g. from query params) win over the QR's saved style
+export async function getQRCodeImageFile(qrCode, format, overrides = {}) {
+  const style = { ...getStoredQRStyle(qrCode), ...overrides };
+  return renderQRCode(
+    getScanUrl(qrCode.slug),
+    style,
+    format,
+    await getLogoFor(qrCode)
+  );
+}
+
+// this helper pulls the numeric part out of a variant GID
+// e.g. "gid://shopify/ProductVariant/123" → "123"
+function getVariantIdNumber(productVariantId) {
   const regex = /gid:\/\/shopify\/ProductVariant\/([0-9]+)/;
-  const match = regex.exec(qrCode.productVariantId);
+  const match = regex.exec(productVariantId);
 
   // invariant makes sure the variant id has the shape we expect
   invariant(match, "Unrecognized product variant ID");
 
-  const variantIdNumber = match[1];
+  return match[1];
+}
 
-  // this URL sends the customer straight to cart with quantity 1 of that variant
-  // this is perfect for reorders from a QR printed on the product itself
-  const url = `https://${qrCode.shop}/cart/${variantIdNumber}:1`;
-  return url;
+// this helper figures out where this QR should send customers
+export function getDestinationUrl(qrCode) {
+  const shopUrl = `https://${qrCode.shop}`;
+
+  // a deleted product would give customers a 404 or an empty cart
+  if (qrCode.productDeleted && PRODUCT_DESTINATIONS.includes(qrCode.destination)) {
+    return getFallbackUrl(qrCode);
+  }
+
+  switch (qrCode.destination) {
+    // "product" means send to the product page
+    case "product":
+      return `${shopUrl}/products/${qrCode.productHandle}`;
+
+    // "collection" sends to a collection page picked in the form
+    case "collection":
+      invariant(qrCode.collectionHandle, "Missing collection handle");
+      return `${shopUrl}/collections/${qrCode.collectionHandle}`;
+
+    // "url" is a custom link, already checked against the shop's domains on save
+    case "url":
+      invariant(qrCode.customUrl, "Missing custom URL");
+      return new URL(qrCode.customUrl).href;
+
+    // "cart" fills the cart and shows the cart page (storefront=true)
+    case "cart":
+      return getCartPermalink(qrCode, true);
+
+    // In this app we are focusing on "reorder" use case,
+    // so by default ("checkout") we send the customer straight to checkout with the product alr inside there cart
+    // So it shows products already in the cart instead of showing the product page first.
+    default:
+      return getCartPermalink(qrCode, false);
+  }
 }
 
-// this internal function adds extra data (image + product info) to a QR row
-async function supplementQRCode(qrCode, graphql) {
-  // build QR image in parallel with the GraphQL product request
-  const qrCodeImagePromise = getQRCodeImage(qrCode.id);
+// the destinations that break when the QR's product is gone
+// ("collection" and "url" don't use the product, so they keep working)
+const PRODUCT_DESTINATIONS = ["product", "cart", "checkout"];
 
-  // here we ask the Admin API for product + variant info using GraphQL
-  const response = await graphql(
-    `
-      query ProductData($id: ID!, $variantId: ID!) {
-        product(id: $id) {
-          title
-          featuredImage {
-            url
-          }
-        }
-        productVariant(id: $variantId) {
-          price
-        }
-      }
-    `,
-    {
-      variables: {
-        id: qrCode.productId,
-        variantId: qrCode.productVariantId,
+// this helper picks where a QR with a deleted product sends customers
+function getFallbackUrl(qrCode) {
+  const shopUrl = `https://${qrCode.shop}`;
+
+  if (qrCode.fallbackType === "collection" && qrCode.fallbackCollection) {
+    return `${shopUrl}/collections/${qrCode.fallbackCollection}`;
+  }
+
+  if (qrCode.fallbackType === "variant" && qrCode.fallbackVariantId) {
+    if (qrCode.destination === "product") {
+      const variantId = getVariantIdNumber(qrCode.fallbackVariantId);
+      return `${shopUrl}/products/${qrCode.fallbackProductHandle}?variant=${variantId}`;
+    }
+
+    // same cart / checkout link, with the replacement instead of the old lines
+    const quantity = qrCode.lineItems?.[0]?.quantity ?? 1;
+    return getCartPermalink(
+      {
+        ...qrCode,
+        lineItems: [{ productVariantId: qrCode.fallbackVariantId, quantity }],
       },
+      qrCode.destination === "cart"
+    );
+  }
+
+  // "home" (and any fallback missing its target) goes to the storefront home page
+  return `${shopUrl}/`;
+}
+
+// this helper builds a Shopify cart permalink like
+// https://shop/cart/111:2,222:1?discount=CODE&note=...&attributes[source]=box
+function getCartPermalink(qrCode, toCartPage) {
+  // older QR rows have no cart lines, so they keep quantity 1 of their variant
+  const lines = qrCode.lineItems?.length
+    ? qrCode.lineItems
+    : [{ productVariantId: qrCode.productVariantId, quantity: 1 }];
+
+  const cartPath = lines
+    .map((line) => `${getVariantIdNumber(line.productVariantId)}:${line.quantity}`)
+    .join(",");
+
+  const url = new URL(`/cart/${cartPath}`, `https://${qrCode.shop}`);
+
+  if (qrCode.discountCode) {
+    url.searchParams.set("discount", qrCode.discountCode);
+  }
+
+  if (qrCode.cartNote) {
+    url.searchParams.set("note", qrCode.cartNote);
+  }
+
+  if (qrCode.cartAttributes) {
+    const attributes = JSON.parse(qrCode.cartAttributes);
+
+    for (const [key, value] of Object.entries(attributes)) {
+      url.searchParams.set(`attributes[${key}]`, value);
     }
-  );
+  }
 
-  const json = await response.json();
-  const data = json.data;
+  // without this Shopify sends the customer straight to checkout
+  if (toCartPage) {
+    url.searchParams.set("storefront", "true");
+  }
+
+  return url.href;
+}
 
-  const product = data ? data.product : null;
-  const productVariant = data ? data.productVariant : null;
+// this internal function adds extra data (image + product info) to a QR row
+async function supplementQRCode(qrCode, graphql) {
+  const [fullQRCode] = await supplementQRCodes([qrCode], graphql);
+  return fullQRCode;
+}
 
-  const qrImage = await qrCodeImagePromise;
+// this helper adds product info + QR image to many rows at once
+// product fields come from the cache columns on the row, only rows that
+// were never cached are looked up (in batches, see ProductCache.server.js)
+async function supplementQRCodes(qrCodes, graphql) {
+  // build QR images in parallel with the GraphQL product requests
+  const qrImagesPromise = Promise.all(qrCodes.map(getQRCodeImage));
 
-  // we return one merged object that the React UI can easily render
-  return {
-    // all fields from the database row
-    ...qrCode,
+  const cachedQRCodes = await ensureProductCache(qrCodes, graphql);
 
-    // base64 image data for the QR
-    qrImage,
+  const qrImages = await qrImagesPromise;
 
-    // product name for display
-    productTitle: product ? product.title : undefined,
+  const fullQRCodes = [];
 
-    // product image url
-    productImage:
-      product && product.featuredImage
-        ? product.featuredImage.url
-        : undefined,
+  cachedQRCodes.forEach((qrCode, index) => {
+    // one merged object per row that the React UI can easily render
+    fullQRCodes.push({
+      // all fields from the database row (including the cached product fields)
+      ...qrCode,
+
+      // base64 image data for the QR
+      qrImage: qrImages[index],
+
+      // the UI reads undefined as "no product info"
+      productTitle: qrCode.productTitle ?? undefined,
+      productImage: qrCode.productImage ?? undefined,
+      variantTitle: qrCode.variantTitle ?? undefined,
+      price: qrCode.price ?? undefined,
+    });
+  });
 
-    // price is now a simple scalar value
-    price: productVariant ? productVariant.price : undefined,
-  };
+  return fullQRCodes;
 }
 
 // this helper is used by the public scan route (no GraphQL needed here)
 export async function getQRCodeRecord(id) {
-  // only fetches the DB row, no extra product info
+  // only fetches the DB row (+ cart lines for the redirect), no extra product info
   const qrCode = await db.qRCode.findFirst({
     where: { id: id },
+    include: LINE_ITEMS_INCLUDE,
   });
 
   return qrCode;
 }
 
-// this helper increments the scan counter for a QR row
-export async function recordScan(qrCode) {
-  // uses Prisma's increment to add 1 to scans
-  const updatedQRCode = await db.qRCode.update({
-    where: { id: qrCode.id },
-    data: {
-      scans: {
-        increment: 1,
-      },
-    },
+// same as getQRCodeRecord, but looked up by the public scan URL slug
+export async function getQRCodeRecordBySlug(slug) {
+  return db.qRCode.findUnique({
+    where: { slug },
+    include: LINE_ITEMS_INCLUDE,
   });
+}
+
+// this helper logs one QRScan row and bumps the cached scan counter
+// bots and repeat scans are logged as ExcludedScan rows instead and not counted
+// returns the updated QR, or null when the scan was excluded
+export async function recordScan(qrCode, request) {
+  // user agent, referer, hashed IP and country from the scan request
+  const details = getScanDetails(request);
+
+  const reason = await getScanExclusion(qrCode.id, details);
+
+  if (reason) {
+    await db.excludedScan.create({
+      data: {
+        qrCodeId: qrCode.id,
+        shop: qrCode.shop,
+        reason,
+        ...details,
+      },
+    });
+    return null;
+  }
+
+  // both writes run in one transaction so the cached total
+  // always matches the number of QRScan rows
+  const [, updatedQRCode] = await db.$transaction([
+    db.qRScan.create({
+      data: {
+        qrCodeId: qrCode.id,
+        shop: qrCode.shop,
+        ...details,
+      },
+    }),
+    // uses Prisma's increment to add 1 to scans
+    db.qRCode.update({
+      where: { id: qrCode.id },
+      data: {
+        scans: {
+          increment: 1,
+        },
+      },
+    }),
+  ]);
 
   return updatedQRCode;
 }
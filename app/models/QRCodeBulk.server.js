@@ -0,0 +1,277 @@
+import db from "../db.server"; // this is the Prisma client already set up
+import { getNodesById } from "./AdminApi.server";
+import { createQRCodeSlug } from "./QRCode.server";
+
+// one upload / selection can't create more than this many QR codes
+export const MAX_BULK_ROWS = 500;
+
+// bulk rows only support destinations that need nothing but a variant
+const BULK_DESTINATIONS = ["product", "cart", "checkout"];
+
+// how many SKUs go into one productVariants search query
+const SKU_BATCH_SIZE = 50;
+
+// this helper splits CSV text into rows of cells
+// it handles quoted cells ("a, b"), escaped quotes ("") and \r\n line endings
+export function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      // "\r\n" counts as one line break
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  // last line without a trailing newline
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// this helper turns a CSV upload into bulk rows
+// header names are case-insensitive: sku, variant_id, title, destination
+// returns the rows or throws a 400 Response if the file itself is unusable
+export function getCsvRows(text) {
+  const [header, ...lines] = parseCsv(text);
+
+  if (!header) {
+    throw new Response("The CSV file is empty.", { status: 400 });
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const skuIndex = columns.indexOf("sku");
+  const variantIndex = columns.indexOf("variant_id");
+  const titleIndex = columns.indexOf("title");
+  const destinationIndex = columns.indexOf("destination");
+
+  if (skuIndex === -1 && variantIndex === -1) {
+    throw new Response(
+      'The CSV needs a "sku" or a "variant_id" column in the first row.',
+      { status: 400 }
+    );
+  }
+
+  const cellAt = (cells, index) =>
+    index === -1 ? "" : String(cells[index] ?? "").trim();
+
+  const rows = lines
+    .map((cells, index) => ({
+      // +2 because row 1 is the header and people count from 1
+      line: index + 2,
+      sku: cellAt(cells, skuIndex),
+      variantId: toVariantGid(cellAt(cells, variantIndex)),
+      title: cellAt(cells, titleIndex),
+      destination: cellAt(cells, destinationIndex).toLowerCase(),
+    }))
+    // blank lines (often a trailing one) are ignored
+    .filter((row) => row.sku || row.variantId || row.title || row.destination);
+
+  if (rows.length > MAX_BULK_ROWS) {
+    throw new Response(
+      `A CSV can create at most ${MAX_BULK_ROWS} QR codes at once.`,
+      { status: 400 }
+    );
+  }
+
+  return rows;
+}
+
+const VARIANT_GID = /^gid:\/\/shopify\/ProductVariant\/[0-9]+$/;
+
+// this helper accepts "123" as well as "gid://shopify/ProductVariant/123"
+function toVariantGid(value) {
+  if (!value) {
+    return "";
+  }
+  return /^[0-9]+$/.test(value) ? `gid://shopify/ProductVariant/${value}` : value;
+}
+
+// the variant fields every lookup returns
+const VARIANT_FIELDS = `
+  id
+  sku
+  title
+  product {
+    id
+    title
+    handle
+  }
+`;
+
+// this helper looks variants up by SKU, a batch of SKUs per search query
+// returns a Map of SKU → list of variants (more than one means the SKU is ambiguous)
+async function getVariantsBySku(graphql, skus) {
+  const variants = new Map();
+
+  for (let start = 0; start < skus.length; start += SKU_BATCH_SIZE) {
+    const batch = skus.slice(start, start + SKU_BATCH_SIZE);
+
+    // sku:"A" OR sku:"B" ... (quotes keep SKUs with spaces / dashes intact)
+    const query = batch
+      .map((sku) => `sku:"${sku.replace(/"/g, '\\"')}"`)
+      .join(" OR ");
+
+    const response = await graphql(
+      `
+        query BulkVariantsBySku($query: String!) {
+          productVariants(first: 250, query: $query) {
+            edges {
+              node {
+                ${VARIANT_FIELDS}
+              }
+            }
+          }
+        }
+      `,
+      { variables: { query } }
+    );
+
+    const { data } = await response.json();
+
+    for (const edge of data?.productVariants?.edges ?? []) {
+      const variant = edge.node;
+
+      // the search is fuzzy, so only keep exact SKU matches
+      if (!batch.includes(variant.sku)) {
+        continue;
+      }
+
+      const list = variants.get(variant.sku) ?? [];
+      list.push(variant);
+      variants.set(variant.sku, list);
+    }
+  }
+
+  return variants;
+}
+
+// this function checks every bulk row against the Admin API
+// returns { report, valid } where report has one entry per row (ok or error)
+// and valid holds the QRCode columns for rows that resolved
+export async function resolveBulkRows(graphql, rows, defaultDestination) {
+  // malformed ids would make the whole nodes query fail, so they are never sent
+  const ids = rows
+    .map((row) => row.variantId)
+    .filter((id) => VARIANT_GID.test(id));
+  const skus = [
+    ...new Set(
+      rows.filter((row) => !row.variantId && row.sku).map((row) => row.sku)
+    ),
+  ];
+
+  const byId = await getNodesById(
+    graphql,
+    ids,
+    `... on ProductVariant { ${VARIANT_FIELDS} }`
+  );
+  const bySku = await getVariantsBySku(graphql, skus);
+
+  const report = [];
+  const valid = [];
+
+  for (const row of rows) {
+    const label = row.variantId || row.sku || "(empty)";
+    const destination = row.destination || defaultDestination;
+    let variant = null;
+    let error = null;
+
+    if (!row.variantId && !row.sku) {
+      error = "No SKU or variant id.";
+    } else if (!BULK_DESTINATIONS.includes(destination)) {
+      error = `Destination must be one of: ${BULK_DESTINATIONS.join(", ")}.`;
+    } else if (row.variantId && !VARIANT_GID.test(row.variantId)) {
+      error = "Not a variant id.";
+    } else if (row.variantId) {
+      // nodes also returns other types (e.g. a product id), those have no product field
+      variant = byId.get(row.variantId)?.product ? byId.get(row.variantId) : null;
+      if (!variant) {
+        error = "Variant id not found in this store.";
+      }
+    } else {
+      const matches = bySku.get(row.sku) ?? [];
+      if (matches.length === 0) {
+        error = "SKU not found in this store.";
+      } else if (matches.length > 1) {
+        error = `SKU is used by ${matches.length} variants, use variant_id instead.`;
+      } else {
+        variant = matches[0];
+      }
+    }
+
+    if (error) {
+      report.push({ line: row.line, label, ok: false, message: error });
+      continue;
+    }
+
+    // "Default Title" is what Shopify calls the only variant of simple products
+    const defaultTitle =
+      variant.title === "Default Title"
+        ? `${variant.product.title} reorder`
+        : `${variant.product.title} – ${variant.title} reorder`;
+
+    valid.push({
+      title: row.title || defaultTitle,
+      productId: variant.product.id,
+      productHandle: variant.product.handle,
+      productVariantId: variant.id,
+      // cached up front so list search finds bulk rows by product name too
+      productTitle: variant.product.title,
+      variantTitle: variant.title,
+      destination,
+    });
+    report.push({
+      line: row.line,
+      label,
+      ok: true,
+      message: row.title || defaultTitle,
+    });
+  }
+
+  return { report, valid };
+}
+
+// this function creates all the QR codes in one transaction
+// so a failure half way never leaves a partial batch behind
+export async function createQRCodesInBulk(shop, rows) {
+  return db.$transaction(
+    rows.map((row) =>
+      db.qRCode.create({
+        data: { ...row, shop, slug: createQRCodeSlug() },
+      })
+    )
+  );
+}
@@ -0,0 +1,199 @@
+import db from "../db.server"; // this is the Prisma client already set up
+import { getScanUrl } from "./QRCode.server";
+
+export const EXPORT_FORMATS = ["csv", "json"];
+export const EXPORT_DATASETS = ["qrcodes", "scans"];
+
+// rows are read from the database this many at a time,
+// so a big shop never has every row in memory at once
+const PAGE_SIZE = 500;
+
+// the columns of each dataset, in file order
+const COLUMNS = {
+  qrcodes: [
+    "id",
+    "title",
+    "productId",
+    "productTitle",
+    "productHandle",
+    "productVariantId",
+    "variantTitle",
+    "destination",
+    "scans",
+    "createdAt",
+    "scanUrl",
+  ],
+  scans: [
+    "id",
+    "qrCodeId",
+    "qrCodeTitle",
+    "createdAt",
+    "country",
+    "userAgent",
+    "referer",
+    "ipHash",
+  ],
+};
+
+// this helper reads ?format=csv|json&data=qrcodes|scans from the export URL
+export function getExportOptions(searchParams) {
+  const format = (searchParams.get("format") || "csv").toLowerCase();
+  const dataset = (searchParams.get("data") || "qrcodes").toLowerCase();
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new Response("Format must be csv or json.", { status: 400 });
+  }
+
+  if (!EXPORT_DATASETS.includes(dataset)) {
+    throw new Response("Data must be qrcodes or scans.", { status: 400 });
+  }
+
+  return { format, dataset };
+}
+
+// this helper walks a table page by page with an id cursor
+// findPage(afterId) must return rows ordered by id
+async function* paginate(findPage) {
+  let afterId = 0;
+
+  while (true) {
+    const rows = await findPage(afterId);
+
+    for (const row of rows) {
+      yield row;
+    }
+
+    if (rows.length < PAGE_SIZE) {
+      return;
+    }
+    afterId = rows[rows.length - 1].id;
+  }
+}
+
+// this generator yields QR rows in the export shape
+async function* getQRCodeRows(shop) {
+  const rows = paginate((afterId) =>
+    db.qRCode.findMany({
+      where: { shop, id: { gt: afterId } },
+      orderBy: { id: "asc" },
+      take: PAGE_SIZE,
+    })
+  );
+
+  for await (const qrCode of rows) {
+    yield {
+      id: qrCode.id,
+      title: qrCode.title,
+      productId: qrCode.productId,
+      productTitle: qrCode.productTitle,
+      productHandle: qrCode.productHandle,
+      productVariantId: qrCode.productVariantId,
+      variantTitle: qrCode.variantTitle,
+      destination: qrCode.destination,
+      scans: qrCode.scans,
+      createdAt: qrCode.createdAt.toISOString(),
+      scanUrl: getScanUrl(qrCode.slug),
+    };
+  }
+}
+
+// this generator yields raw scan events in the export shape
+async function* getScanRows(shop) {
+  const rows = paginate((afterId) =>
+    db.qRScan.findMany({
+      where: { shop, id: { gt: afterId } },
+      orderBy: { id: "asc" },
+      take: PAGE_SIZE,
+      include: { qrCode: { select: { title: true } } },
+    })
+  );
+
+  for await (const scan of rows) {
+    yield {
+      id: scan.id,
+      qrCodeId: scan.qrCodeId,
+      qrCodeTitle: scan.qrCode.title,
+      createdAt: scan.createdAt.toISOString(),
+      country: scan.country,
+      userAgent: scan.userAgent,
+      referer: scan.referer,
+      ipHash: scan.ipHash,
+    };
+  }
+}
+
+// this helper escapes one CSV cell
+// cells starting with = + - @ get a leading ' so spreadsheets don't run them as formulas
+function toCsvCell(value) {
+  if (value == null) {
+    return "";
+  }
+
+  let text = String(value);
+
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// this generator turns export rows into CSV lines (header first)
+async function* toCsv(rows, columns) {
+  yield `${columns.join(",")}\r\n`;
+
+  for await (const row of rows) {
+    yield `${columns.map((column) => toCsvCell(row[column])).join(",")}\r\n`;
+  }
+}
+
+// this generator turns export rows into one JSON array, one object per line
+async function* toJson(rows) {
+  let first = true;
+
+  yield "[";
+  for await (const row of rows) {
+    yield `${first ? "" : ","}\n${JSON.stringify(row)}`;
+    first = false;
+  }
+  yield "\n]\n";
+}
+
+// this function builds the streaming export Response for a shop
+// the body is produced page by page as the client reads it
+export function createExportResponse(shop, format, dataset) {
+  const rows = dataset === "scans" ? getScanRows(shop) : getQRCodeRows(shop);
+  const chunks =
+    format === "json" ? toJson(rows) : toCsv(rows, COLUMNS[dataset]);
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(value));
+      }
+    },
+    // the client went away, stop reading the database
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  const filename = `${dataset === "scans" ? "qr-scans" : "qr-codes"}-${date}.${format}`;
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type":
+        format === "json"
+          ? "application/json; charset=utf-8"
+          : "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,285 @@
+import qrcode from "qrcode"; // this library creates QR code image data
+import sharp from "sharp"; // used to put the shop logo on top of the PNG
+import jsQR from "jsqr"; // reads a QR back out of pixels, to check the logo didn't break it
+
+// the style a QR gets when nothing is saved / asked for
+// (these match the column defaults on the QRCode table)
+export const DEFAULT_QR_STYLE = {
+  imageSize: 512, // width + height in pixels (PNG only, SVG scales)
+  foregroundColor: "#000000", // the dark modules
+  backgroundColor: "#ffffff", // the light modules + quiet zone
+  margin: 4, // quiet zone around the code, in modules
+  errorCorrection: "M", // L (7%), M (15%), Q (25%), H (30%) recoverable
+};
+
+// small size for the admin list / edit page preview, so pages stay light
+const PREVIEW_SIZE = 300;
+
+// how much of the QR width the logo (with its little plate) covers
+// 22% wide → ~5% of the area, well inside what "H" error correction can recover
+const LOGO_RATIO = 0.22;
+
+const IMAGE_FORMATS = ["png", "svg"];
+const ERROR_CORRECTION_LEVELS = ["L", "M", "Q", "H"];
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// the only sizes the public image URL renders, so anyone without a session
+// can ask for at most a handful of images per QR (the admin route takes any style)
+export const PUBLIC_IMAGE_SIZES = [128, 256, 512, 1024];
+
+// style params only the authenticated /app/qrcodes/:id/image route accepts
+const ADMIN_ONLY_IMAGE_PARAMS = ["fg", "bg", "margin", "ecc"];
+
+// this helper picks the style columns off a QR row
+// (older rows or plain objects fall back to the defaults)
+export function getStoredQRStyle(qrCode) {
+  return {
+    imageSize: qrCode.imageSize ?? DEFAULT_QR_STYLE.imageSize,
+    foregroundColor: qrCode.foregroundColor ?? DEFAULT_QR_STYLE.foregroundColor,
+    backgroundColor: qrCode.backgroundColor ?? DEFAULT_QR_STYLE.backgroundColor,
+    margin: qrCode.margin ?? DEFAULT_QR_STYLE.margin,
+    errorCorrection: qrCode.errorCorrection ?? DEFAULT_QR_STYLE.errorCorrection,
+  };
+}
+
+// this helper checks raw style values (from a form or a query string)
+// every key is optional, missing keys are simply left out of the result
+// invalid values throw a 400 so callers don't have to check anything
+export function parseQRStyle(values) {
+  const style = {};
+
+  if (values.imageSize != null && values.imageSize !== "") {
+    const imageSize = Number(values.imageSize);
+
+    if (!Number.isInteger(imageSize) || imageSize < 64 || imageSize > 4096) {
+      throw new Response("Size must be a whole number from 64 to 4096.", {
+        status: 400,
+      });
+    }
+    style.imageSize = imageSize;
+  }
+
+  for (const key of ["foregroundColor", "backgroundColor"]) {
+    if (values[key] != null && values[key] !== "") {
+      // allow "000000" as well as "#000000" (a bare # is awkward in URLs)
+      const color = String(values[key]).startsWith("#")
+        ? String(values[key])
+        : `#${values[key]}`;
+
+      if (!HEX_COLOR.test(color)) {
+        throw new Response("Colours must be 6-digit hex values like #1a2b3c.", {
+          status: 400,
+        });
+      }
+      style[key] = color.toLowerCase();
+    }
+  }
+
+  if (values.margin != null && values.margin !== "") {
+    const margin = Number(values.margin);
+
+    if (!Number.isInteger(margin) || margin < 0 || margin > 20) {
+      throw new Response("Margin must be a whole number from 0 to 20.", {
+        status: 400,
+      });
+    }
+    style.margin = margin;
+  }
+
+  if (values.errorCorrection != null && values.errorCorrection !== "") {
+    const errorCorrection = String(values.errorCorrection).toUpperCase();
+
+    if (!ERROR_CORRECTION_LEVELS.includes(errorCorrection)) {
+      throw new Response("Error correction must be L, M, Q or H.", {
+        status: 400,
+      });
+    }
+    style.errorCorrection = errorCorrection;
+  }
+
+  return style;
+}
+
+// this helper reads ?format=png|svg (png when missing)
+function getImageFormat(searchParams) {
+  const format = (searchParams.get("format") || "png").toLowerCase();
+
+  if (!IMAGE_FORMATS.includes(format)) {
+    throw new Response("Format must be png or svg.", { status: 400 });
+  }
+
+  return format;
+}
+
+// this helper reads ?format=&size=&fg=&bg=&margin=&ecc= from the image URL
+// short names keep the theme block / print links readable
+export function getImageRequestOptions(searchParams) {
+  const format = getImageFormat(searchParams);
+
+  const style = parseQRStyle({
+    imageSize: searchParams.get("size"),
+    foregroundColor: searchParams.get("fg"),
+    backgroundColor: searchParams.get("bg"),
+    margin: searchParams.get("margin"),
+    errorCorrection: searchParams.get("ecc"),
+  });
+
+  return { format, style };
+}
+
+// this helper reads ?format=&size= for the public /qrcodes/image URL
+// the QR's saved style is used as is, only the size can change (see PUBLIC_IMAGE_SIZES)
+export function getPublicImageRequestOptions(searchParams) {
+  const format = getImageFormat(searchParams);
+
+  if (ADMIN_ONLY_IMAGE_PARAMS.some((param) => searchParams.has(param))) {
+    throw new Response(
+      "Colours, margin and error correction can't be changed here.",
+      { status: 400 },
+    );
+  }
+
+  const size = searchParams.get("size");
+
+  if (!size) {
+    return { format, style: {} };
+  }
+
+  if (!PUBLIC_IMAGE_SIZES.includes(Number(size))) {
+    throw new Response(
+      `Size must be one of ${PUBLIC_IMAGE_SIZES.join(", ")}.`,
+      { status: 400 },
+    );
+  }
+
+  return { format, style: { imageSize: Number(size) } };
+}
+
+// this helper turns our style shape into qrcode library options
+function toQRCodeOptions(style) {
+  return {
+    width: style.imageSize,
+    margin: style.margin,
+    errorCorrectionLevel: style.errorCorrection,
+    color: {
+      dark: style.foregroundColor,
+      light: style.backgroundColor,
+    },
+  };
+}
+
+// this helper forces "H" error correction when a logo covers part of the code
+function withLogoStyle(style, logo) {
+  return logo ? { ...style, errorCorrection: "H" } : style;
+}
+
+// this helper draws the logo on a plate in the middle of a QR PNG
+async function overlayLogoOnPng(png, logo, backgroundColor) {
+  const { width } = await sharp(png).metadata();
+
+  const plateSize = Math.round(width * LOGO_RATIO);
+  const padding = Math.round(plateSize * 0.1);
+
+  // the plate uses the QR background colour so the logo doesn't look pasted on
+  const plate = await sharp(logo)
+    .resize(plateSize - padding * 2, plateSize - padding * 2, {
+      fit: "contain",
+      background: backgroundColor,
+    })
+    .flatten({ background: backgroundColor })
+    .extend({
+      top: padding,
+      bottom: padding,
+      left: padding,
+      right: padding,
+      background: backgroundColor,
+    })
+    .png()
+    .toBuffer();
+
+  return sharp(png)
+    .composite([{ input: plate, gravity: "centre" }])
+    .png()
+    .toBuffer();
+}
+
+// this helper adds the logo as an <image> in the middle of the qrcode SVG
+// the SVG stays vector, only the logo itself is embedded as a PNG
+function overlayLogoOnSvg(svg, logo, backgroundColor) {
+  // qrcode writes viewBox="0 0 N N" where N is the size in modules
+  const match = /viewBox="0 0 (\d+) (\d+)"/.exec(svg);
+  if (!match) {
+    return svg;
+  }
+
+  const size = Number(match[1]);
+  const plateSize = size * LOGO_RATIO;
+  const padding = plateSize * 0.1;
+  const offset = (size - plateSize) / 2;
+  const href = `data:image/png;base64,${logo.toString("base64")}`;
+
+  const overlay =
+    `<rect x="${offset}" y="${offset}" width="${plateSize}" height="${plateSize}" fill="${backgroundColor}"/>` +
+    `<image x="${offset + padding}" y="${offset + padding}" width="${plateSize - padding * 2}" height="${plateSize - padding * 2}" href="${href}" preserveAspectRatio="xMidYMid meet"/>`;
+
+  return svg.replace("</svg>", `${overlay}</svg>`);
+}
+
+// this function renders a QR for the given text as PNG bytes or SVG markup
+// pass the shop logo (PNG bytes) to put it in the centre
+// returns { body, contentType } so routes can put it straight in a Response
+export async function renderQRCode(text, style, format = "png", logo = null) {
+  const finalStyle = withLogoStyle(style, logo);
+  const options = toQRCodeOptions(finalStyle);
+
+  if (format === "svg") {
+    let svg = await qrcode.toString(text, { ...options, type: "svg" });
+
+    if (logo) {
+      svg = overlayLogoOnSvg(svg, logo, finalStyle.backgroundColor);
+    }
+
+    return { body: svg, contentType: "image/svg+xml" };
+  }
+
+  let png = await qrcode.toBuffer(text, { ...options, type: "png" });
+
+  if (logo) {
+    png = await overlayLogoOnPng(png, logo, finalStyle.backgroundColor);
+  }
+
+  return { body: png, contentType: "image/png" };
+}
+
+// this function renders the small PNG data URL used for <img src="..."> in the admin
+export async function renderQRCodePreview(text, style, logo = null) {
+  const { body } = await renderQRCode(
+    text,
+    { ...style, imageSize: PREVIEW_SIZE },
+    "png",
+    logo,
+  );
+
+  return `data:image/png;base64,${body.toString("base64")}`;
+}
+
+// this function checks a styled (and maybe branded) QR still scans
+// it renders the PNG, reads it back with jsQR and compares the text
+export async function canDecodeQRCode(text, style, logo = null) {
+  // a fixed, moderate size keeps this fast and close to a phone camera's view
+  const { body } = await renderQRCode(
+    text,
+    { ...style, imageSize: 400 },
+    "png",
+    logo,
+  );
+
+  const { data, info } = await sharp(body)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const result = jsQR(new Uint8ClampedArray(data), info.width, info.height);
+
+  return result?.data === text;
+}
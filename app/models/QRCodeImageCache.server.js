@@ -0,0 +1,87 @@
+import { createHash } from "node:crypto"; // turns the cache key into an ETag
+import { getQRCodeImageFile } from "./QRCode.server";
+import { getStoredQRStyle } from "./QRCodeImage.server";
+import { getShopLogoVersion } from "./ShopBranding.server";
+
+// rendered /qrcodes/image files are kept in memory, least recently used goes first
+// the limit is in bytes because a 4096px PNG is much bigger than a 300px one
+const MAX_CACHE_BYTES = 32 * 1024 * 1024;
+
+const cache = new Map(); // key → { body, contentType, size }, oldest first
+let cacheBytes = 0;
+
+// this helper works out what a QR image depends on, before rendering it
+// the same QR id + slug + format + style + logo always gives the same bytes,
+// so the key doubles as a strong ETag
+export async function getQRCodeImageVersion(qrCode, format, overrides) {
+  const style = { ...getStoredQRStyle(qrCode), ...overrides };
+
+  // a new logo upload changes every branded image of the shop
+  const logoVersion = qrCode.showLogo
+    ? await getShopLogoVersion(qrCode.shop)
+    : null;
+
+  const key = JSON.stringify([
+    qrCode.id,
+    qrCode.slug,
+    format,
+    style,
+    qrCode.showLogo,
+    logoVersion,
+  ]);
+  const etag = `"${createHash("sha256").update(key).digest("base64url")}"`;
+
+  return { key, etag };
+}
+
+// this helper checks an If-None-Match header against our ETag
+// (browsers may send several tags, or W/ weak ones, or "*")
+export function matchesETag(ifNoneMatch, etag) {
+  if (!ifNoneMatch) {
+    return false;
+  }
+
+  return ifNoneMatch
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
+}
+
+// this function returns the rendered image for a key from getQRCodeImageVersion,
+// rendering (and caching) it only when it isn't in memory yet
+export async function getCachedQRCodeImageFile(qrCode, format, overrides, key) {
+  const cached = cache.get(key);
+
+  if (cached) {
+    // move it to the end, it's now the most recently used
+    cache.delete(key);
+    cache.set(key, cached);
+    return cached;
+  }
+
+  const { body, contentType } = await getQRCodeImageFile(
+    qrCode,
+    format,
+    overrides
+  );
+  const entry = { body, contentType, size: Buffer.byteLength(body) };
+
+  // a request for the same image may have rendered it while we were waiting
+  if (cache.has(key)) {
+    return cache.get(key);
+  }
+
+  cache.set(key, entry);
+  cacheBytes += entry.size;
+
+  // Map keeps insertion order, so the first keys are the least recently used
+  for (const [oldKey, oldEntry] of cache) {
+    if (cacheBytes <= MAX_CACHE_BYTES) {
+      break;
+    }
+    cache.delete(oldKey);
+    cacheBytes -= oldEntry.size;
+  }
+
+  return entry;
+}
@@ -0,0 +1,373 @@
+import { DESTINATIONS } from "./QRCode.server";
+import { DEFAULT_QR_STYLE, parseQRStyle } from "./QRCodeImage.server";
+import { getNodesById } from "./AdminApi.server"; // batched, rate-limit aware nodes(ids:) lookups
+
+// this module reads the QR create/edit form and checks every field.
+// instead of throwing on the first problem it collects one message per field,
+// keyed by the input's name, so the form can show them next to the inputs.
+
+export const MAX_TITLE_LENGTH = 100;
+const MAX_DISCOUNT_CODE_LENGTH = 255; // Shopify's own limit for discount codes
+const MAX_CART_NOTE_LENGTH = 500;
+
+const PRODUCT_GID = /^gid:\/\/shopify\/Product\/[0-9]+$/;
+const VARIANT_GID = /^gid:\/\/shopify\/ProductVariant\/[0-9]+$/;
+
+// handles are lowercase words joined by dashes, never slashes or spaces
+const HANDLE = /^[^\s/?#]+$/;
+
+// where scans go when the QR's product was deleted or archived
+export const FALLBACK_TYPES = ["home", "collection", "variant"];
+
+// the style inputs, each one is checked on its own so errors land on the right field
+const STYLE_FIELDS = [
+  "imageSize",
+  "foregroundColor",
+  "backgroundColor",
+  "margin",
+  "errorCorrection",
+];
+
+// this helper splits a packed "productId|variantId|productHandle" picker value
+// returns null if it doesn't have that shape
+function parsePackedVariant(value) {
+  const [productId, variantId, handle, ...rest] = String(value || "").split("|");
+
+  if (
+    rest.length > 0 ||
+    !PRODUCT_GID.test(productId ?? "") ||
+    !VARIANT_GID.test(variantId ?? "") ||
+    !HANDLE.test(handle ?? "")
+  ) {
+    return null;
+  }
+
+  return { productId, variantId, handle };
+}
+
+// this helper returns every host name the shop's storefront answers on
+// (the myshopify.com domain + the primary custom domain)
+async function getShopHosts(graphql) {
+  const response = await graphql(
+    `
+      query ShopDomainsForQR {
+        shop {
+          myshopifyDomain
+          primaryDomain {
+            host
+          }
+        }
+      }
+    `
+  );
+
+  const { data } = await response.json();
+
+  return [data?.shop?.myshopifyDomain, data?.shop?.primaryDomain?.host].filter(
+    Boolean
+  );
+}
+
+// this helper checks a custom destination URL is a web link on one of the shop's hosts
+// so a QR can never be used to bounce customers to some other site
+function isShopUrl(value, hosts) {
+  let url;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  return (
+    (url.protocol === "https:" || url.protocol === "http:") &&
+    hosts.includes(url.hostname)
+  );
+}
+
+// this helper reads the cart line editor + discount / note / attributes fields
+// lines come in as repeated "lineVariant" + "lineQuantity" fields (same order)
+// a line's variant is packed like the main picker's, empty means "the QR's own variant"
+function getCartFormData(formData, productVariantId, errors) {
+  const packedVariants = formData.getAll("lineVariant").map(String);
+  const quantities = formData.getAll("lineQuantity").map(String);
+
+  const lineItems = [];
+
+  packedVariants.forEach((packedVariant, index) => {
+    const lineVariant = packedVariant ? parsePackedVariant(packedVariant) : null;
+    const variantId = packedVariant ? lineVariant?.variantId : productVariantId;
+    const quantity = Number(quantities[index] || 1);
+
+    // a missing main variant is already reported on its own field
+    if (!VARIANT_GID.test(variantId ?? "")) {
+      if (packedVariant) {
+        errors.lineItems = "Unrecognized product variant in cart lines.";
+      }
+      return;
+    }
+
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > 999) {
+      errors.lineItems = "Cart line quantities must be between 1 and 999.";
+      return;
+    }
+
+    lineItems.push({ productVariantId: variantId, quantity, position: index });
+  });
+
+  const discountCode = String(formData.get("discountCode") || "").trim();
+  const cartNote = String(formData.get("cartNote") || "").trim();
+
+  if (discountCode.length > MAX_DISCOUNT_CODE_LENGTH) {
+    errors.discountCode = `Discount codes can be at most ${MAX_DISCOUNT_CODE_LENGTH} characters.`;
+  }
+
+  if (cartNote.length > MAX_CART_NOTE_LENGTH) {
+    errors.cartNote = `The cart note can be at most ${MAX_CART_NOTE_LENGTH} characters.`;
+  }
+
+  // attributes are typed as one "key=value" pair per line
+  const attributes = {};
+  const attributesText = String(formData.get("cartAttributes") || "");
+
+  for (const line of attributesText.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    const separatorIndex = line.indexOf("=");
+    const key = line.slice(0, separatorIndex).trim();
+
+    if (separatorIndex === -1 || !key) {
+      errors.cartAttributes = `Cart attributes must look like "key=value" (got "${line.trim()}").`;
+      break;
+    }
+
+    attributes[key] = line.slice(separatorIndex + 1).trim();
+  }
+
+  return {
+    lineItems,
+    discountCode: discountCode || null,
+    cartNote: cartNote || null,
+    // stored as a JSON string because SQLite has no JSON column
+    cartAttributes: Object.keys(attributes).length
+      ? JSON.stringify(attributes)
+      : null,
+  };
+}
+
+// this helper reads the style inputs, blank ones go back to the defaults
+// parseQRStyle throws a 400 Response for a bad value, its text becomes the field error
+async function getStyleFormData(formData, errors) {
+  const style = { ...DEFAULT_QR_STYLE };
+
+  for (const field of STYLE_FIELDS) {
+    try {
+      Object.assign(style, parseQRStyle({ [field]: formData.get(field) }));
+    } catch (error) {
+      if (!(error instanceof Response)) {
+        throw error;
+      }
+      errors[field] = await error.text();
+    }
+  }
+
+  return style;
+}
+
+// this helper reads the fallback fields (type + collection or replacement variant)
+function getFallbackFormData(formData, errors) {
+  const typeValue = String(formData.get("fallbackType") || "");
+  const fallbackType = FALLBACK_TYPES.includes(typeValue) ? typeValue : "home";
+
+  let fallbackCollection = null;
+  let fallbackVariant = null;
+
+  if (fallbackType === "collection") {
+    fallbackCollection = String(formData.get("fallbackCollection") || "").trim();
+
+    if (!HANDLE.test(fallbackCollection)) {
+      errors.fallbackCollection = "Please select a fallback collection.";
+    }
+  }
+
+  if (fallbackType === "variant") {
+    fallbackVariant = parsePackedVariant(formData.get("fallbackVariant"));
+
+    if (!fallbackVariant) {
+      errors.fallbackVariant = "Please select a replacement variant.";
+    }
+  }
+
+  return { fallbackType, fallbackCollection, fallbackVariant };
+}
+
+// this helper checks the picked variants with one Admin API call
+// the API only sees this shop's catalog, so a variant from another shop is "not found"
+// returns the current product handles, which win over the (maybe stale) posted ones,
+// and the main variant's titles so list search finds the new row straight away
+async function checkVariants(graphql, variants, lineItems, errors) {
+  const ids = [
+    variants.main?.variantId,
+    variants.fallback?.variantId,
+    ...lineItems.map((line) => line.productVariantId),
+  ].filter(Boolean);
+
+  const found = { handles: {}, titles: {} };
+
+  if (ids.length === 0) {
+    return found;
+  }
+
+  const nodes = await getNodesById(
+    graphql,
+    ids,
+    `... on ProductVariant { title product { id handle title } }`
+  );
+
+  // nodes also returns other types for a valid GID, those have no product field
+  const productOf = (variantId) => nodes.get(variantId)?.product ?? null;
+
+  if (variants.main) {
+    const product = productOf(variants.main.variantId);
+
+    if (!product) {
+      errors.productVariant = "This variant doesn't exist in your store.";
+    } else if (product.id !== variants.main.productId) {
+      errors.productVariant = "This variant doesn't belong to that product.";
+    } else {
+      found.handles.main = product.handle;
+      found.titles = {
+        productTitle: product.title,
+        variantTitle: nodes.get(variants.main.variantId).title,
+      };
+    }
+  }
+
+  if (variants.fallback) {
+    const product = productOf(variants.fallback.variantId);
+
+    if (!product || product.id !== variants.fallback.productId) {
+      errors.fallbackVariant = "This replacement variant doesn't exist in your store.";
+    } else {
+      found.handles.fallback = product.handle;
+    }
+  }
+
+  if (lineItems.some((line) => !productOf(line.productVariantId))) {
+    errors.lineItems = "A cart line's variant doesn't exist in your store.";
+  }
+
+  return found;
+}
+
+// this function reads + checks the create/edit form fields
+// it is shared by the /app/qrcodes/new and /app/qrcodes/:id actions
+// returns { fields } (QRCode columns + lineItems) when everything is valid,
+// or { errors } with one message per form field name otherwise
+export async function validateQRCodeForm(formData, graphql) {
+  const errors = {};
+
+  // title for the QR code (shown in admin list)
+  const title = String(formData.get("title") || "").trim();
+
+  if (title.length > MAX_TITLE_LENGTH) {
+    errors.title = `Titles can be at most ${MAX_TITLE_LENGTH} characters.`;
+  }
+
+  // this field contains "productId|variantId|productHandle" from the picker
+  const main = parsePackedVariant(formData.get("productVariant"));
+
+  if (!main) {
+    errors.productVariant = "Please select a product variant.";
+  }
+
+  // unknown destinations fall back to "checkout" because this app is for reorders
+  const destinationValue = String(formData.get("destination") || "");
+  const destination = DESTINATIONS.includes(destinationValue)
+    ? destinationValue
+    : "checkout";
+
+  // extra columns only used by some destinations (null otherwise)
+  let collectionHandle = null;
+  let customUrl = null;
+
+  if (destination === "collection") {
+    collectionHandle = String(formData.get("collectionHandle") || "").trim();
+
+    if (!HANDLE.test(collectionHandle)) {
+      errors.collectionHandle = "Please select a collection.";
+    }
+  }
+
+  if (destination === "url") {
+    customUrl = String(formData.get("customUrl") || "").trim();
+    const hosts = await getShopHosts(graphql);
+
+    if (!isShopUrl(customUrl, hosts)) {
+      errors.customUrl = `The custom URL must be a link on your store (${hosts.join(" or ")}).`;
+    }
+  }
+
+  // cart lines, discount code, note + attributes only matter for cart permalinks
+  const cartFields = ["cart", "checkout"].includes(destination)
+    ? getCartFormData(formData, main?.variantId, errors)
+    : {
+        lineItems: [],
+        discountCode: null,
+        cartNote: null,
+        cartAttributes: null,
+      };
+
+  // the logo checkbox; the logo itself is uploaded once per shop
+  const showLogo = formData.get("showLogo") === "on";
+
+  // image style preset saved on the QR
+  const style = await getStyleFormData(formData, errors);
+
+  // a logo hides part of the code, so branded QRs always use "H" error correction
+  if (showLogo) {
+    style.errorCorrection = "H";
+  }
+
+  const { fallbackType, fallbackCollection, fallbackVariant } =
+    getFallbackFormData(formData, errors);
+
+  // the Admin API check is the slow part, so it only runs once the shapes are right
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  const { handles, titles } = await checkVariants(
+    graphql,
+    { main, fallback: fallbackVariant },
+    cartFields.lineItems,
+    errors
+  );
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return {
+    fields: {
+      title: title || "QR reorder", // fallback title if empty
+      productId: main.productId,
+      productHandle: handles.main,
+      productVariantId: main.variantId,
+      // the rest of the product cache (image, price) is filled when the QR is first listed
+      productTitle: titles.productTitle,
+      variantTitle: titles.variantTitle,
+      destination,
+      collectionHandle,
+      customUrl,
+      ...cartFields,
+      ...style,
+      showLogo,
+      fallbackType,
+      fallbackCollection,
+      fallbackVariantId: fallbackVariant?.variantId ?? null,
+      fallbackProductHandle: handles.fallback ?? null,
+    },
+  };
+}
@@ -0,0 +1,296 @@
+import { createHmac } from "node:crypto"; // used to hash client IPs
+import { isbot } from "isbot"; // link-preview crawlers, search bots, uptime checkers
+import { Prisma } from "@prisma/client"; // tagged SQL fragments for the analytics queries
+import db from "../db.server"; // this is the Prisma client already set up
+
+// repeat scans from the same device within this many seconds count once
+// set SCAN_DEDUPE_SECONDS to change it (0 turns deduplication off)
+const DEFAULT_SCAN_DEDUPE_SECONDS = 10 * 60;
+
+// headers that CDNs / proxies use to tell us the visitor's country
+// (the first one that is set wins)
+const COUNTRY_HEADERS = [
+  "cf-ipcountry", // Cloudflare (also set by the dev tunnel)
+  "x-vercel-ip-country", // Vercel
+  "cloudfront-viewer-country", // AWS CloudFront
+  "x-country-code", // generic, e.g. set by an nginx geoip module
+];
+
+// the header Cloudflare overwrites with the visitor's address
+// the Shopify CLI dev tunnel and Cloudflare-fronted hosting both send it,
+// so it's what we read when the deployment doesn't say otherwise
+const DEFAULT_CLIENT_IP_HEADER = "cf-connecting-ip";
+
+// how many reverse proxies in front of the app append to X-Forwarded-For
+// set TRUSTED_PROXY_COUNT to match the deployment (e.g. 1 behind one load balancer)
+// 0, the default, means forwarding headers are ignored
+function getTrustedProxyCount() {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT || 0);
+  return Number.isInteger(count) && count > 0 ? count : 0;
+}
+
+// this helper finds the client IP the way the deployment is configured:
+// - CLIENT_IP_HEADER names a header the edge overwrites
+// - otherwise the X-Forwarded-For hop added by the outermost trusted proxy
+// - otherwise Cloudflare's cf-connecting-ip (see DEFAULT_CLIENT_IP_HEADER)
+// returns null when none of them is there (react-router-serve gives loaders
+// no socket address)
+export function getClientIp(request) {
+  const clientIpHeader = process.env.CLIENT_IP_HEADER;
+
+  if (clientIpHeader) {
+    return request.headers.get(clientIpHeader)?.trim() || null;
+  }
+
+  const proxies = getTrustedProxyCount();
+
+  if (proxies === 0) {
+    return request.headers.get(DEFAULT_CLIENT_IP_HEADER)?.trim() || null;
+  }
+
+  const forwardedFor = request.headers.get("x-forwarded-for");
+
+  if (!forwardedFor) {
+    return null;
+  }
+
+  // "spoofed, client, proxy1" → each trusted proxy appended the address it saw,
+  // so anything left of the last `proxies` entries came from the client itself
+  const hops = forwardedFor
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+
+  return hops[hops.length - proxies] ?? null;
+}
+
+// this helper hashes the IP so we can count unique scanners
+// without ever storing the raw address
+export function hashIp(ip) {
+  if (!ip) {
+    return null;
+  }
+
+  // keyed with the app secret so the hash can't be reversed by
+  // simply trying every IPv4 address
+  const secret = process.env.SHOPIFY_API_SECRET || "";
+
+  return createHmac("sha256", secret).update(ip).digest("hex");
+}
+
+// this helper reads everything we log about one scan from the request
+// the result is spread straight into a QRScan row
+export function getScanDetails(request) {
+  let country = null;
+
+  for (const header of COUNTRY_HEADERS) {
+    const value = request.headers.get(header);
+
+    // Cloudflare uses "XX" / "T1" when it doesn't know the country
+    if (value && value !== "XX" && value !== "T1") {
+      country = value.toUpperCase();
+      break;
+    }
+  }
+
+  return {
+    userAgent: request.headers.get("user-agent"),
+    referer: request.headers.get("referer"),
+    ipHash: hashIp(getClientIp(request)),
+    country,
+  };
+}
+
+// this helper reads the dedupe window from the environment, in milliseconds
+function getScanDedupeWindowMs() {
+  const value = process.env.SCAN_DEDUPE_SECONDS;
+  const seconds = value ? Number(value) : DEFAULT_SCAN_DEDUPE_SECONDS;
+
+  // a typo shouldn't switch deduplication off
+  return Number.isFinite(seconds) && seconds >= 0
+    ? seconds * 1000
+    : DEFAULT_SCAN_DEDUPE_SECONDS * 1000;
+}
+
+// this helper decides whether a scan should be left out of the counts
+// returns "bot", "duplicate" or null (count it)
+// a duplicate is the same QR scanned from the same IP + user agent within the window
+export async function getScanExclusion(qrCodeId, details) {
+  if (isbot(details.userAgent ?? "")) {
+    return "bot";
+  }
+
+  const windowMs = getScanDedupeWindowMs();
+
+  // without an IP we can't tell clients apart, so every scan counts
+  if (windowMs === 0 || !details.ipHash) {
+    return null;
+  }
+
+  const recentScan = await db.qRScan.findFirst({
+    where: {
+      qrCodeId,
+      ipHash: details.ipHash,
+      userAgent: details.userAgent,
+      createdAt: { gte: new Date(Date.now() - windowMs) },
+    },
+    select: { id: true },
+  });
+
+  return recentScan ? "duplicate" : null;
+}
+
+// --------------------
+// analytics helpers
+// --------------------
+
+// how many days back each "range" option looks
+export const ANALYTICS_RANGES = [7, 30, 90];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// this SQL puts a user agent into a simple device bucket for the charts
+// (LIKE ignores ASCII case, and Android is checked before Linux since its UA has both)
+const DEVICE_SQL = Prisma.sql`CASE
+  WHEN "userAgent" IS NULL OR "userAgent" = '' THEN 'Unknown'
+  WHEN "userAgent" LIKE '%iPhone%' OR "userAgent" LIKE '%iPad%' OR "userAgent" LIKE '%iPod%' THEN 'iOS'
+  WHEN "userAgent" LIKE '%Android%' THEN 'Android'
+  WHEN "userAgent" LIKE '%Windows%' OR "userAgent" LIKE '%Macintosh%' OR "userAgent" LIKE '%Linux%' OR "userAgent" LIKE '%CrOS%' THEN 'Desktop'
+  ELSE 'Other'
+END`;
+
+// this helper builds the WHERE clause every analytics query shares
+// Prisma keeps DateTime columns in SQLite as milliseconds since 1970,
+// so createdAt compares against since.getTime() (and the index still applies)
+function getScanWhereSql(shop, qrCodeId, since) {
+  const qrCodeFilter = qrCodeId
+    ? Prisma.sql`AND "qrCodeId" = ${qrCodeId}`
+    : Prisma.empty;
+
+  return Prisma.sql`WHERE "shop" = ${shop} AND "createdAt" >= ${since.getTime()} ${qrCodeFilter}`;
+}
+
+// this helper gives the first day (UTC, as "YYYY-MM-DD") of the bucket a date falls in
+// weeks start on Monday
+function getBucketKey(date, interval) {
+  const day = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+
+  if (interval === "week") {
+    // getUTCDay is 0 for Sunday, so shift it to make Monday 0
+    const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+    day.setUTCDate(day.getUTCDate() - daysSinceMonday);
+  }
+
+  return day.toISOString().slice(0, 10);
+}
+
+// this function builds everything the analytics pages show
+// pass a qrCodeId for one QR, or null for the whole shop
+// interval is "day" or "week", days is how far back to look
+// the counting happens in SQL, only the totals come back to the server
+export async function getScanAnalytics(shop, qrCodeId, interval, days) {
+  const now = new Date();
+  const since = new Date(now.getTime() - (days - 1) * DAY_MS);
+  since.setUTCHours(0, 0, 0, 0);
+
+  const where = getScanWhereSql(shop, qrCodeId, since);
+
+  // one row per UTC day that had scans (at most 90), weeks are summed below
+  const dayRows = await db.$queryRaw`
+    SELECT strftime('%Y-%m-%d', "createdAt" / 1000, 'unixepoch') AS "day",
+      COUNT(*) AS "scans"
+    FROM "QRScan" ${where}
+    GROUP BY "day"`;
+
+  const deviceRows = await db.$queryRaw`
+    SELECT ${DEVICE_SQL} AS "device", COUNT(*) AS "scans"
+    FROM "QRScan" ${where}
+    GROUP BY "device"
+    ORDER BY "scans" DESC`;
+
+  // a "repeat" scanner is someone (same hashed IP) who scanned more than once
+  const [scannerRow] = await db.$queryRaw`
+    SELECT COUNT(*) AS "uniqueScanners",
+      COALESCE(SUM(CASE WHEN "scans" > 1 THEN 1 ELSE 0 END), 0) AS "repeatScanners"
+    FROM (
+      SELECT COUNT(*) AS "scans"
+      FROM "QRScan" ${where} AND "ipHash" IS NOT NULL
+      GROUP BY "ipHash"
+    )`;
+
+  // pre-fill every bucket with 0 so the chart has no gaps
+  const seriesMap = new Map();
+  for (let time = since.getTime(); time <= now.getTime(); time += DAY_MS) {
+    seriesMap.set(getBucketKey(new Date(time), interval), 0);
+  }
+
+  // SQLite hands COUNT(*) back as a BigInt, so every count goes through Number()
+  let totalScans = 0;
+  for (const row of dayRows) {
+    const bucket = getBucketKey(new Date(`${row.day}T00:00:00Z`), interval);
+    const scans = Number(row.scans);
+
+    seriesMap.set(bucket, (seriesMap.get(bucket) ?? 0) + scans);
+    totalScans += scans;
+  }
+
+  // top 5 QR codes by scans in this range (only useful on the shop-wide page)
+  const topGroups = qrCodeId
+    ? []
+    : await db.qRScan.groupBy({
+        by: ["qrCodeId"],
+        where: { shop, createdAt: { gte: since } },
+        _count: { _all: true },
+        orderBy: { _count: { qrCodeId: "desc" } },
+        take: 5,
+      });
+
+  const topRows = topGroups.length
+    ? await db.qRCode.findMany({
+        where: { shop, id: { in: topGroups.map((group) => group.qrCodeId) } },
+        select: { id: true, title: true },
+      })
+    : [];
+
+  const titles = new Map(topRows.map((row) => [row.id, row.title]));
+
+  // groupBy already sorted them, a QR deleted since then just drops out
+  const topQRCodes = topGroups
+    .filter((group) => titles.has(group.qrCodeId))
+    .map((group) => ({
+      id: group.qrCodeId,
+      title: titles.get(group.qrCodeId),
+      scans: group._count._all,
+    }));
+
+  return {
+    interval,
+    days,
+    totalScans,
+    uniqueScanners: Number(scannerRow?.uniqueScanners ?? 0),
+    repeatScanners: Number(scannerRow?.repeatScanners ?? 0),
+    series: [...seriesMap.entries()].map(([date, count]) => ({
+      date,
+      scans: count,
+    })),
+    devices: deviceRows.map((row) => ({
+      device: row.device,
+      scans: Number(row.scans),
+    })),
+    topQRCodes,
+  };
+}
+
+// this helper reads ?interval=day|week&days=7|30|90 from the page URL
+export function getAnalyticsParams(request) {
+  const url = new URL(request.url);
+
+  const interval = url.searchParams.get("interval") === "week" ? "week" : "day";
+
+  const daysParam = Number(url.searchParams.get("days"));
+  const days = ANALYTICS_RANGES.includes(daysParam) ? daysParam : 30;
+
+  return { interval, days };
+}
@@ -0,0 +1,148 @@
+import db from "../db.server"; // this is the Prisma client already set up
+import { getClientIp, hashIp } from "./QRScan.server"; // same client IP + hash as scan logging
+
+// the public scan + image endpoints are unauthenticated and each hit reads SQLite,
+// so every client gets a budget per minute, across all QRs and per QR
+// (a camera scan is one hit, a storefront product page loads one image)
+// clients whose IP we can't tell (see getClientIp) only share a generous per-QR budget,
+// one app-wide bucket would let a single client lock every shop out
+export const RATE_LIMITS = {
+  scan: {
+    windowMs: 60 * 1000,
+    perClient: 60,
+    perQRCode: 10,
+    sharedPerQRCode: 300,
+  },
+  image: {
+    windowMs: 60 * 1000,
+    perClient: 120,
+    perQRCode: 30,
+    sharedPerQRCode: 1000,
+  },
+};
+
+// set once we've warned that client IPs are unknown, so the log isn't flooded
+let warnedUnknownClient = false;
+
+// the in-memory store forgets finished windows once it holds this many keys
+const MAX_MEMORY_KEYS = 10000;
+
+// a store counts hits per key in fixed windows
+// increment(key, windowMs) resolves to { count, resetAt } for the current window
+
+// this store keeps the counters in process memory (the default)
+// fast and free, but each server instance counts on its own
+export function createMemoryRateLimitStore() {
+  const buckets = new Map(); // key → { count, resetAt }
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+
+      // drop finished windows so a scraper rotating IPs can't grow the map forever
+      if (buckets.size >= MAX_MEMORY_KEYS) {
+        for (const [bucketKey, bucket] of buckets) {
+          if (bucket.resetAt <= now) {
+            buckets.delete(bucketKey);
+          }
+        }
+      }
+
+      let bucket = buckets.get(key);
+      if (!bucket || bucket.resetAt <= now) {
+        bucket = { count: 0, resetAt: now + windowMs };
+        buckets.set(key, bucket);
+      }
+
+      bucket.count += 1;
+      return { count: bucket.count, resetAt: bucket.resetAt };
+    },
+  };
+}
+
+// this store keeps the counters in the RateLimitBucket table
+// use it when several server instances share one database
+export function createDatabaseRateLimitStore() {
+  return {
+    async increment(key, windowMs) {
+      const now = new Date();
+      const resetAt = new Date(now.getTime() + windowMs);
+
+      const bucket = await db.$transaction(async (tx) => {
+        const current = await tx.rateLimitBucket.findUnique({ where: { key } });
+
+        if (!current || current.resetAt <= now) {
+          return tx.rateLimitBucket.upsert({
+            where: { key },
+            create: { key, count: 1, resetAt },
+            update: { count: 1, resetAt },
+          });
+        }
+
+        return tx.rateLimitBucket.update({
+          where: { key },
+          data: { count: { increment: 1 } },
+        });
+      });
+
+      // now and then clear out finished windows, nobody reads them again
+      if (Math.random() < 0.01) {
+        await db.rateLimitBucket.deleteMany({
+          where: { resetAt: { lte: now } },
+        });
+      }
+
+      return { count: bucket.count, resetAt: bucket.resetAt.getTime() };
+    },
+  };
+}
+
+// RATE_LIMIT_STORE=database switches to the shared store, anything else is memory
+let store =
+  process.env.RATE_LIMIT_STORE === "database"
+    ? createDatabaseRateLimitStore()
+    : createMemoryRateLimitStore();
+
+// this function swaps the store, e.g. for one backed by Redis
+// any object with the increment(key, windowMs) method above works
+export function setRateLimitStore(nextStore) {
+  store = nextStore;
+}
+
+// this function counts one hit on a public endpoint and throws a 429 Response
+// (with Retry-After in seconds) when the client is over either budget
+// name is a key of RATE_LIMITS, qrKey is whatever the URL identifies the QR by
+export async function checkRateLimit(request, name, qrKey) {
+  const limits = RATE_LIMITS[name];
+  const client = hashIp(getClientIp(request));
+
+  // without an IP every customer looks the same, so they only share the per-QR
+  // budget and there is no app-wide limit (set CLIENT_IP_HEADER or TRUSTED_PROXY_COUNT)
+  if (!client && !warnedUnknownClient) {
+    warnedUnknownClient = true;
+    console.warn(
+      "Rate limiting can't tell clients apart: no client IP on the request. " +
+        "Set CLIENT_IP_HEADER or TRUSTED_PROXY_COUNT to match your hosting.",
+    );
+  }
+
+  const hits = client
+    ? [
+        { key: `${name}:ip:${client}`, limit: limits.perClient },
+        { key: `${name}:qr:${client}:${qrKey}`, limit: limits.perQRCode },
+      ]
+    : [{ key: `${name}:qr:shared:${qrKey}`, limit: limits.sharedPerQRCode }];
+
+  for (const { key, limit } of hits) {
+    const { count, resetAt } = await store.increment(key, limits.windowMs);
+
+    if (count > limit) {
+      const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+
+      throw new Response("Too many requests, please try again shortly.", {
+        status: 429,
+        headers: { "Retry-After": String(retryAfter) },
+      });
+    }
+  }
+}
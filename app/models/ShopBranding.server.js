@@ -0,0 +1,86 @@
+import sharp from "sharp"; // used to clean up uploaded logos
+import db from "../db.server"; // this is the Prisma client already set up
+
+// uploads bigger than this are rejected before we even decode them
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+
+// logos are stored small, they only ever cover ~20% of a QR
+const LOGO_MAX_SIZE = 512;
+
+const LOGO_TYPES = ["image/png", "image/jpeg", "image/webp", "image/svg+xml"];
+
+// this function returns the shop's logo as PNG bytes, or null if none was uploaded
+export async function getShopLogo(shop) {
+  const branding = await db.shopBranding.findUnique({
+    where: { shop },
+  });
+
+  return branding ? Buffer.from(branding.logo) : null;
+}
+
+// this function returns when the shop's logo last changed (ms), or null without a logo
+// cheaper than getShopLogo when we only need to know if cached images are stale
+export async function getShopLogoVersion(shop) {
+  const branding = await db.shopBranding.findUnique({
+    where: { shop },
+    select: { updatedAt: true },
+  });
+
+  return branding ? branding.updatedAt.getTime() : null;
+}
+
+// this function tells the QR form whether the logo checkbox can be used
+export async function hasShopLogo(shop) {
+  const count = await db.shopBranding.count({
+    where: { shop },
+  });
+
+  return count > 0;
+}
+
+// this function saves an uploaded logo File for the shop
+// every format is converted to one small PNG, so rendering never has to care
+export async function saveShopLogo(shop, file) {
+  if (!file || typeof file === "string" || file.size === 0) {
+    throw new Response("Please choose a logo file.", { status: 400 });
+  }
+
+  if (!LOGO_TYPES.includes(file.type)) {
+    throw new Response("Logos must be PNG, JPEG, WebP or SVG.", {
+      status: 400,
+    });
+  }
+
+  if (file.size > MAX_LOGO_BYTES) {
+    throw new Response("Logos must be smaller than 2 MB.", { status: 400 });
+  }
+
+  let logo;
+  try {
+    logo = await sharp(Buffer.from(await file.arrayBuffer()))
+      .resize(LOGO_MAX_SIZE, LOGO_MAX_SIZE, {
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .png()
+      .toBuffer();
+  } catch {
+    throw new Response("That file could not be read as an image.", {
+      status: 400,
+    });
+  }
+
+  // one row per shop, so upload again simply replaces the logo
+  await db.shopBranding.upsert({
+    where: { shop },
+    create: { shop, logo },
+    update: { logo },
+  });
+}
+
+// this function removes the shop's logo (QRs then render without it)
+export async function deleteShopLogo(shop) {
+  await db.shopBranding.deleteMany({
+    where: { shop },
+  });
+}
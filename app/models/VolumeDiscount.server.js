@@ -0,0 +1,622 @@
+import { getNodesById } from "./AdminApi.server"; // batched, rate-limit aware nodes(ids:) lookups
+
+// volume discounts are Shopify app discounts run by our volume-based-discount function.
+// Shopify stores the discount itself (title, code, dates), we only write the
+// function's configuration into the discount's metafield (see discount_config.ts
+// in the extension for the shape it reads)
+
+// handle of the function extension (extensions/volume-based-discount)
+const FUNCTION_HANDLE = "volume-based-discount";
+
+// the metafield both function input queries read
+const CONFIG_NAMESPACE = "$app:volume-based-discount";
+const CONFIG_KEY = "function-configuration";
+
+// "automatic" applies at checkout by itself, "code" needs the customer to enter it
+export const DISCOUNT_METHODS = ["automatic", "code"];
+
+export const MAX_TIERS = 10;
+const MAX_TITLE_LENGTH = 255;
+
+// limits for the collections + tags the tiers can be narrowed to
+const MAX_COLLECTIONS = 50;
+const MAX_TAGS = 50;
+const MAX_TAG_LENGTH = 255;
+const COLLECTION_GID = /^gid:\/\/shopify\/Collection\/[0-9]+$/;
+
+// the fields we show for both kinds of app discount
+const DISCOUNT_FIELDS = `
+  id
+  metafield(namespace: "${CONFIG_NAMESPACE}", key: "${CONFIG_KEY}") {
+    value
+  }
+  discount {
+    __typename
+    ... on DiscountAutomaticApp {
+      title
+      status
+      startsAt
+      endsAt
+    }
+    ... on DiscountCodeApp {
+      title
+      status
+      startsAt
+      endsAt
+      codes(first: 1) {
+        nodes {
+          code
+        }
+      }
+    }
+  }
+`;
+
+// this helper pulls the numeric part out of any GID ("gid://shopify/DiscountNode/1" → "1")
+function getNumericId(gid) {
+  return gid.split("/").pop();
+}
+
+// this helper reads the saved config, a hand-edited or broken metafield counts as empty
+// products is only set on the discount the ProductDiscount rows are synced to
+function parseConfig(value) {
+  try {
+    const config = JSON.parse(value);
+    return {
+      tiers: Array.isArray(config?.tiers) ? config.tiers : [],
+      delivery: config?.delivery ?? null,
+      products: Array.isArray(config?.products) ? config.products : null,
+      collectionIds: Array.isArray(config?.collectionIds)
+        ? config.collectionIds
+        : [],
+      tags: Array.isArray(config?.tags) ? config.tags : [],
+    };
+  } catch {
+    return {
+      tiers: [],
+      delivery: null,
+      products: null,
+      collectionIds: [],
+      tags: [],
+    };
+  }
+}
+
+// this helper builds the GID the discount mutations + metafieldsSet expect
+function getDiscountGid(id, method) {
+  return method === "code"
+    ? `gid://shopify/DiscountCodeNode/${id}`
+    : `gid://shopify/DiscountAutomaticNode/${id}`;
+}
+
+// this helper maps a discountNode onto the shape the admin pages use
+// returns null for app discounts from other functions (they have no config metafield)
+// and for the product discounts' synced discount (managed on /app/product-discounts)
+function toVolumeDiscount(node) {
+  if (!node?.metafield || !node.discount) {
+    return null;
+  }
+
+  const { discount } = node;
+  const config = parseConfig(node.metafield.value);
+
+  if (config.products) {
+    return null;
+  }
+
+  return {
+    id: getNumericId(node.id), // used in /app/discounts/:id
+    title: discount.title,
+    method: discount.__typename === "DiscountCodeApp" ? "code" : "automatic",
+    code: discount.codes?.nodes?.[0]?.code ?? null,
+    status: discount.status, // "ACTIVE" | "SCHEDULED" | "EXPIRED"
+    startsAt: discount.startsAt,
+    endsAt: discount.endsAt,
+    tiers: config.tiers,
+    delivery: config.delivery,
+    collectionIds: config.collectionIds, // with tags: empty = every product
+    tags: config.tags,
+  };
+}
+
+// this helper loads the shop's app discounts, newest first
+// (the first 50, more than a shop realistically runs at once)
+async function getAppDiscountNodes(graphql) {
+  const response = await graphql(
+    `
+      query AppDiscounts {
+        discountNodes(first: 50, query: "type:app", sortKey: CREATED_AT, reverse: true) {
+          nodes {
+            ${DISCOUNT_FIELDS}
+          }
+        }
+      }
+    `
+  );
+
+  const { data } = await response.json();
+
+  return data?.discountNodes?.nodes ?? [];
+}
+
+// this function lists the shop's volume discounts, newest first
+export async function getVolumeDiscounts(graphql) {
+  const nodes = await getAppDiscountNodes(graphql);
+
+  const discounts = [];
+  nodes.forEach((node) => {
+    const discount = toVolumeDiscount(node);
+    if (discount) {
+      discounts.push(discount);
+    }
+  });
+
+  return discounts;
+}
+
+// this function checks an app discount still exists (merchants can delete it in admin)
+// used for the automatic discount the ProductDiscount rows are synced to
+export async function appDiscountExists(graphql, id) {
+  const response = await graphql(
+    `
+      query AppDiscountExists($id: ID!) {
+        discountNode(id: $id) {
+          id
+        }
+      }
+    `,
+    { variables: { id: `gid://shopify/DiscountNode/${id}` } }
+  );
+
+  const { data } = await response.json();
+
+  // no answer isn't "deleted", guessing wrong would create a second discount
+  if (!data) {
+    throw new Error(`Couldn't look up discount ${id}`);
+  }
+
+  return Boolean(data.discountNode);
+}
+
+// this function loads one volume discount by its numeric id, or null
+// also loads the titles of the collections it's limited to, for the edit form
+export async function getVolumeDiscount(graphql, id) {
+  const response = await graphql(
+    `
+      query VolumeDiscount($id: ID!) {
+        discountNode(id: $id) {
+          ${DISCOUNT_FIELDS}
+        }
+      }
+    `,
+    { variables: { id: `gid://shopify/DiscountNode/${id}` } }
+  );
+
+  const { data } = await response.json();
+
+  const discount = toVolumeDiscount(data?.discountNode);
+
+  if (!discount) {
+    return null;
+  }
+
+  const nodes = await getNodesById(
+    graphql,
+    discount.collectionIds,
+    `... on Collection { title }`
+  );
+
+  // a deleted collection keeps its id (so saving doesn't silently drop it)
+  const collections = [];
+  discount.collectionIds.forEach((collectionId) => {
+    collections.push({
+      id: collectionId,
+      title: nodes.get(collectionId)?.title ?? "Deleted collection",
+    });
+  });
+
+  return { ...discount, collections };
+}
+
+// this helper turns "YYYY-MM-DD" from a date input into an ISO date, or null
+function parseDate(value) {
+  const text = String(value || "").trim();
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || Number.isNaN(Date.parse(text))) {
+    return null;
+  }
+
+  return new Date(`${text}T00:00:00Z`).toISOString();
+}
+
+// this helper reads the tier rows, posted as repeated "tierMinQuantity" +
+// "tierPercentage" fields (same order), rows left blank are skipped
+function getTierFormData(formData, errors) {
+  const quantities = formData.getAll("tierMinQuantity").map(String);
+  const percentages = formData.getAll("tierPercentage").map(String);
+
+  const tiers = [];
+
+  quantities.forEach((quantityValue, index) => {
+    const percentageValue = percentages[index] ?? "";
+
+    if (!quantityValue.trim() && !percentageValue.trim()) {
+      return;
+    }
+
+    const minQuantity = Number(quantityValue);
+    const percentage = Number(percentageValue);
+
+    if (!Number.isInteger(minQuantity) || minQuantity < 1) {
+      errors.tiers = "Tier quantities must be whole numbers of at least 1.";
+      return;
+    }
+
+    if (!(percentage > 0 && percentage <= 100)) {
+      errors.tiers = "Tier percentages must be between 0 and 100.";
+      return;
+    }
+
+    tiers.push({ minQuantity, percentage });
+  });
+
+  const quantitiesSeen = new Set(tiers.map((tier) => tier.minQuantity));
+
+  if (quantitiesSeen.size !== tiers.length) {
+    errors.tiers = "Each tier needs a different quantity.";
+  }
+
+  if (tiers.length > MAX_TIERS) {
+    errors.tiers = `A discount can have at most ${MAX_TIERS} tiers.`;
+  }
+
+  // stored lowest first, that's how merchants read them
+  return tiers.sort((a, b) => a.minQuantity - b.minQuantity);
+}
+
+// this helper reads which products the tiers are limited to: repeated
+// "collectionId" fields from the picker + a comma separated "tags" field
+function getTargetingFormData(formData, errors) {
+  const collectionIds = [
+    ...new Set(formData.getAll("collectionId").map(String)),
+  ];
+
+  if (collectionIds.some((id) => !COLLECTION_GID.test(id))) {
+    errors.collectionIds = "Please pick the collections again.";
+  } else if (collectionIds.length > MAX_COLLECTIONS) {
+    errors.collectionIds = `A discount can be limited to at most ${MAX_COLLECTIONS} collections.`;
+  }
+
+  const tags = [
+    ...new Set(
+      String(formData.get("tags") || "")
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+    ),
+  ];
+
+  if (tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    errors.tags = `Tags can be at most ${MAX_TAG_LENGTH} characters.`;
+  } else if (tags.length > MAX_TAGS) {
+    errors.tags = `A discount can be limited to at most ${MAX_TAGS} tags.`;
+  }
+
+  return { collectionIds, tags };
+}
+
+// this function reads + checks the volume discount form
+// returns { fields } when everything is valid, or { errors } keyed by field name
+// savedMethod is the discount's method on the edit page (it can't change after
+// creation, so the form doesn't post it there), null on the create page
+export function validateVolumeDiscountForm(formData, savedMethod) {
+  const errors = {};
+
+  const title = String(formData.get("title") || "").trim();
+
+  if (!title) {
+    errors.title = "Please enter a title.";
+  } else if (title.length > MAX_TITLE_LENGTH) {
+    errors.title = `Titles can be at most ${MAX_TITLE_LENGTH} characters.`;
+  }
+
+  const methodValue = savedMethod ?? String(formData.get("method") || "");
+  const method = DISCOUNT_METHODS.includes(methodValue)
+    ? methodValue
+    : "automatic";
+
+  let code = null;
+
+  if (method === "code") {
+    code = String(formData.get("code") || "").trim();
+
+    if (!code) {
+      errors.code = "Please enter the code customers will type at checkout.";
+    } else if (code.length > MAX_TITLE_LENGTH) {
+      errors.code = `Codes can be at most ${MAX_TITLE_LENGTH} characters.`;
+    }
+  }
+
+  const startsAt = parseDate(formData.get("startsAt"));
+
+  if (!startsAt) {
+    errors.startsAt = "Please pick a start date.";
+  }
+
+  // no end date means the discount runs until it's deleted
+  const endsAtValue = String(formData.get("endsAt") || "").trim();
+  const endsAt = endsAtValue ? parseDate(endsAtValue) : null;
+
+  if (endsAtValue && !endsAt) {
+    errors.endsAt = "Please pick a valid end date.";
+  } else if (endsAt && startsAt && endsAt <= startsAt) {
+    errors.endsAt = "The end date must be after the start date.";
+  }
+
+  const tiers = getTierFormData(formData, errors);
+
+  // none of either means the tiers apply to every product
+  const { collectionIds, tags } = getTargetingFormData(formData, errors);
+
+  // a blank delivery percentage means no delivery discount
+  const deliveryValue = String(formData.get("deliveryPercentage") || "").trim();
+  let delivery = null;
+
+  if (deliveryValue) {
+    const percentage = Number(deliveryValue);
+
+    if (!(percentage > 0 && percentage <= 100)) {
+      errors.deliveryPercentage =
+        "The delivery discount must be between 0 and 100 percent.";
+    } else {
+      delivery = { percentage };
+    }
+  }
+
+  if (!errors.tiers && tiers.length === 0 && !delivery) {
+    errors.tiers = "Add at least one tier (or a delivery discount).";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return {
+    fields: {
+      title,
+      method,
+      code,
+      startsAt,
+      endsAt,
+      config: { tiers, delivery, collectionIds, tags },
+    },
+  };
+}
+
+// this helper picks the discount classes the function should run for
+// (PRODUCT for the tiers, SHIPPING for the delivery discount)
+function getDiscountClasses(config) {
+  const classes = [];
+
+  if (config.tiers.length || config.products?.length) {
+    classes.push("PRODUCT");
+  }
+  if (config.delivery) {
+    classes.push("SHIPPING");
+  }
+
+  return classes;
+}
+
+// this helper turns the mutations' userErrors into one form-level message, or null
+function getUserErrors(userErrors) {
+  if (!userErrors?.length) {
+    return null;
+  }
+
+  return { form: userErrors.map((error) => error.message).join(" ") };
+}
+
+// this function writes the function's config onto a saved discount
+// returns null when saved, or { form } with Shopify's messages
+export async function setVolumeDiscountConfig(graphql, id, method, config) {
+  const response = await graphql(
+    `
+      mutation SetVolumeDiscountConfig($metafields: [MetafieldsSetInput!]!) {
+        metafieldsSet(metafields: $metafields) {
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    {
+      variables: {
+        metafields: [
+          {
+            ownerId: getDiscountGid(id, method),
+            namespace: CONFIG_NAMESPACE,
+            key: CONFIG_KEY,
+            type: "json",
+            value: JSON.stringify(config),
+          },
+        ],
+      },
+    }
+  );
+
+  const { data } = await response.json();
+
+  return getUserErrors(data?.metafieldsSet?.userErrors);
+}
+
+// this function creates the discount in Shopify with its config metafield
+// returns { id } (numeric) or { errors } with Shopify's messages
+export async function createVolumeDiscount(graphql, fields) {
+  const { title, method, code, startsAt, endsAt, config } = fields;
+
+  const discount = {
+    title,
+    functionHandle: FUNCTION_HANDLE,
+    startsAt,
+    endsAt,
+    discountClasses: getDiscountClasses(config),
+    // written with the discount, so the function never runs without config
+    metafields: [
+      {
+        namespace: CONFIG_NAMESPACE,
+        key: CONFIG_KEY,
+        type: "json",
+        value: JSON.stringify(config),
+      },
+    ],
+  };
+
+  const response =
+    method === "code"
+      ? await graphql(
+          `
+            mutation CreateVolumeCodeDiscount($discount: DiscountCodeAppInput!) {
+              discountCreate: discountCodeAppCreate(codeAppDiscount: $discount) {
+                discount: codeAppDiscount {
+                  discountId
+                }
+                userErrors {
+                  field
+                  message
+                }
+              }
+            }
+          `,
+          { variables: { discount: { ...discount, code } } }
+        )
+      : await graphql(
+          `
+            mutation CreateVolumeAutomaticDiscount(
+              $discount: DiscountAutomaticAppInput!
+            ) {
+              discountCreate: discountAutomaticAppCreate(
+                automaticAppDiscount: $discount
+              ) {
+                discount: automaticAppDiscount {
+                  discountId
+                }
+                userErrors {
+                  field
+                  message
+                }
+              }
+            }
+          `,
+          { variables: { discount } }
+        );
+
+  const { data } = await response.json();
+  const result = data?.discountCreate;
+
+  const errors = getUserErrors(result?.userErrors);
+  if (errors) {
+    return { errors };
+  }
+
+  return { id: getNumericId(result.discount.discountId) };
+}
+
+// this function saves the edit form: title, code, dates, classes + the config
+// method is the saved discount's method (automatic and code discounts are different types)
+// returns null when saved, or { form } with Shopify's messages
+export async function updateVolumeDiscount(graphql, id, method, fields) {
+  const { title, code, startsAt, endsAt, config } = fields;
+
+  const discount = {
+    title,
+    startsAt,
+    endsAt,
+    discountClasses: getDiscountClasses(config),
+  };
+
+  const discountId = getDiscountGid(id, method);
+
+  const response =
+    method === "code"
+      ? await graphql(
+          `
+            mutation UpdateVolumeCodeDiscount(
+              $id: ID!
+              $discount: DiscountCodeAppInput!
+            ) {
+              discountUpdate: discountCodeAppUpdate(
+                id: $id
+                codeAppDiscount: $discount
+              ) {
+                userErrors {
+                  field
+                  message
+                }
+              }
+            }
+          `,
+          { variables: { id: discountId, discount: { ...discount, code } } }
+        )
+      : await graphql(
+          `
+            mutation UpdateVolumeAutomaticDiscount(
+              $id: ID!
+              $discount: DiscountAutomaticAppInput!
+            ) {
+              discountUpdate: discountAutomaticAppUpdate(
+                id: $id
+                automaticAppDiscount: $discount
+              ) {
+                userErrors {
+                  field
+                  message
+                }
+              }
+            }
+          `,
+          { variables: { id: discountId, discount } }
+        );
+
+  const { data } = await response.json();
+
+  const errors = getUserErrors(data?.discountUpdate?.userErrors);
+  if (errors) {
+    return errors;
+  }
+
+  return setVolumeDiscountConfig(graphql, id, method, config);
+}
+
+// this function deletes the discount from Shopify
+export async function deleteVolumeDiscount(graphql, id, method) {
+  if (method === "code") {
+    await graphql(
+      `
+        mutation DeleteVolumeCodeDiscount($id: ID!) {
+          discountCodeDelete(id: $id) {
+            userErrors {
+              message
+            }
+          }
+        }
+      `,
+      { variables: { id: getDiscountGid(id, method) } }
+    );
+    return;
+  }
+
+  await graphql(
+    `
+      mutation DeleteVolumeAutomaticDiscount($id: ID!) {
+        discountAutomaticDelete(id: $id) {
+          userErrors {
+            message
+          }
+        }
+      }
+    `,
+    { variables: { id: getDiscountGid(id, method) } }
+  );
+}
@@ -1,14 +1,19 @@
 import type { LoaderFunctionArgs, HeadersFunction } from "react-router";
-import { useLoaderData, Link } from "react-router";
+import { useLoaderData, Link, Form } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 
 import { authenticate } from "../shopify.server";
-import { getQRCodes } from "../models/QRCode.server";
+import { getQRCodePage, getQRCodeListParams } from "../models/QRCode.server";
+import { ExportForm } from "../components/ExportForm";
+import {
+  QRCodeListFilters,
+  QRCodeListPagination,
+} from "../components/QRCodeListFilters";
 
 // small helper type for the data this page expects
-type LoaderData = {
-  // this will be whatever getQRCodes returns (array of qr records)
-  qrCodes: Awaited<ReturnType<typeof getQRCodes>>;
+type LoaderData = Awaited<ReturnType<typeof getQRCodePage>> & {
+  // search / filter / sort options read from the URL
+  params: ReturnType<typeof getQRCodeListParams>;
 };
 
 // loader runs on the server before the page renders
@@ -16,20 +21,29 @@ export async function loader({ request }: LoaderFunctionArgs) {
   // this checks the admin session and gives us an Admin API client
   const { admin, session } = await authenticate.admin(request);
 
-  // this helper talks to Prisma + Admin GraphQL and returns QR code list
-  const qrCodes = await getQRCodes(session.shop, admin.graphql);
+  // ?q=&destination=&from=&to=&sort=&dir= plus the page cursor
+  const params = getQRCodeListParams(new URL(request.url).searchParams);
+
+  // this helper talks to Prisma + Admin GraphQL and returns one page of the list
+  const page = await getQRCodePage(session.shop, admin.graphql, params);
 
   // we send this object to the React component below
-  return { qrCodes };
+  return { ...page, params };
 }
 
 // main React component for the /app home route
 export default function QRIndexPage() {
   // get the loader data typed as LoaderData
-  const { qrCodes } = useLoaderData() as LoaderData;
+  const { qrCodes, totalCount, hasPrevious, hasNext, params } =
+    useLoaderData() as LoaderData;
 
   const hasQrCodes = qrCodes && qrCodes.length > 0;
 
+  // with filters on, an empty page means "no matches", not "no QR codes yet"
+  const isFiltered = Boolean(
+    params.q || params.destination || params.status || params.from || params.to,
+  );
+
   return (
     <main
       style={{
@@ -57,24 +71,76 @@ export default function QRIndexPage() {
           QR codes
         </h1>
 
-        {/* link to the create/edit page (we’ll build /app/qrcodes/new next) */}
-        <Link
-          to="/app/qrcodes/new"
-          style={{
-            padding: "8px 14px",
-            borderRadius: "6px",
-            backgroundColor: "#111827",
-            color: "white",
-            textDecoration: "none",
-            fontSize: "14px",
-          }}
-        >
-          + Create QR code
-        </Link>
+        <div style={{ display: "flex", gap: "8px" }}>
+          {/* bulk action: the row checkboxes below belong to this form */}
+          {hasQrCodes && (
+            <Form id="labels-form" method="get" action="/app/labels">
+              <button
+                type="submit"
+                style={{
+                  padding: "8px 14px",
+                  borderRadius: "6px",
+                  border: "1px solid #d1d5db",
+                  backgroundColor: "white",
+                  color: "#111827",
+                  fontSize: "14px",
+                  cursor: "pointer",
+                }}
+              >
+                Print labels
+              </button>
+            </Form>
+          )}
+
+          {/* shop-wide scan charts */}
+          <Link
+            to="/app/analytics"
+            style={{
+              padding: "8px 14px",
+              borderRadius: "6px",
+              border: "1px solid #d1d5db",
+              color: "#111827",
+              textDecoration: "none",
+              fontSize: "14px",
+            }}
+          >
+            Analytics
+          </Link>
+
+          {/* many QR codes at once, from picked variants or a CSV */}
+          <Link
+            to="/app/qrcodes/bulk"
+            style={{
+              padding: "8px 14px",
+              borderRadius: "6px",
+              border: "1px solid #d1d5db",
+              color: "#111827",
+              textDecoration: "none",
+              fontSize: "14px",
+            }}
+          >
+            Bulk create
+          </Link>
+
+          {/* link to the create/edit page (we’ll build /app/qrcodes/new next) */}
+          <Link
+            to="/app/qrcodes/new"
+            style={{
+              padding: "8px 14px",
+              borderRadius: "6px",
+              backgroundColor: "#111827",
+              color: "white",
+              textDecoration: "none",
+              fontSize: "14px",
+            }}
+          >
+            + Create QR code
+          </Link>
+        </div>
       </header>
 
       {/* if there are no QR codes yet, show a friendly empty state */}
-      {!hasQrCodes ? (
+      {!hasQrCodes && !isFiltered ? (
         <section
           style={{
             border: "1px solid #e5e7eb",
@@ -105,161 +171,215 @@ export default function QRIndexPage() {
       ) : (
         // if we DO have QR codes,we show them in a simple table
         <section>
-          <table
+          {/* download everything (or raw scans) as CSV / JSON */}
+          <div
             style={{
-              width: "100%",
-              borderCollapse: "collapse",
-              borderRadius: "8px",
-              overflow: "hidden",
-              border: "1px solid #e5e7eb",
-              fontSize: "14px",
+              display: "flex",
+              justifyContent: "flex-end",
+              marginBottom: "12px",
             }}
           >
-            <thead style={{ backgroundColor: "#f3f4f6" }}>
-              <tr>
-                {/* new column for QR preview + download */}
-                <th
-                  style={{
-                    textAlign: "left",
-                    padding: "10px 12px",
-                    width: "90px",
-                  }}
-                >
-                  QR
-                </th>
-                <th
-                  style={{
-                    textAlign: "left",
-                    padding: "10px 12px",
-                    width: "30%",
-                  }}
-                >
-                  Title
-                </th>
-                <th
-                  style={{
-                    textAlign: "left",
-                    padding: "10px 12px",
-                    width: "35%",
-                  }}
-                >
-                  Product
-                </th>
-                <th
-                  style={{
-                    textAlign: "left",
-                    padding: "10px 12px",
-                  }}
-                >
-                  Date created
-                </th>
-                <th
-                  style={{
-                    textAlign: "right",
-                    padding: "10px 12px",
-                  }}
-                >
-                  Scans
-                </th>
-              </tr>
-            </thead>
-            <tbody>
-              {qrCodes.map((qr: any) => (
-                // each row links to the edit page for that QR code
-                <tr key={qr.id}>
-                  {/* QR preview + download link */}
-                  <td
+            <ExportForm />
+          </div>
+
+          <QRCodeListFilters params={params} />
+
+          <p
+            style={{ fontSize: "13px", color: "#6b7280", marginBottom: "8px" }}
+          >
+            {totalCount} QR code{totalCount === 1 ? "" : "s"}
+            {isFiltered ? " match" : ""}
+          </p>
+
+          {!hasQrCodes ? (
+            <p style={{ fontSize: "14px", color: "#4b5563" }}>
+              No QR codes match these filters.
+            </p>
+          ) : (
+            <table
+              style={{
+                width: "100%",
+                borderCollapse: "collapse",
+                borderRadius: "8px",
+                overflow: "hidden",
+                border: "1px solid #e5e7eb",
+                fontSize: "14px",
+              }}
+            >
+              <thead style={{ backgroundColor: "#f3f4f6" }}>
+                <tr>
+                  {/* checkbox column for bulk actions */}
+                  <th style={{ padding: "10px 12px", width: "32px" }}>
+                    <span style={{ position: "absolute", left: "-9999px" }}>
+                      Select
+                    </span>
+                  </th>
+                  {/* new column for QR preview + download */}
+                  <th
                     style={{
-                      padding: "9px 12px",
-                      borderTop: "1px solid #e5e7eb",
+                      textAlign: "left",
+                      padding: "10px 12px",
+                      width: "90px",
                     }}
                   >
-                    {qr.qrImage ? (
-                      <div
-                        style={{
-                          display: "flex",
-                          flexDirection: "column",
-                          alignItems: "flex-start",
-                          gap: "4px",
-                        }}
-                      >
-                        {/* small QR preview image */}
-                        <img
-                          src={qr.qrImage}
-                          alt="QR code"
-                          style={{
-                            width: "56px",
-                            height: "56px",
-                            objectFit: "contain",
-                            borderRadius: "4px",
-                            border: "1px solid #e5e7eb",
-                            backgroundColor: "#ffffff",
-                          }}
-                        />
-                        {/* download link that saves qr-<id>.png */}
-                        <a
-                          href={qr.qrImage}
-                          download={`qr-${qr.id}.png`}
-                          style={{
-                            fontSize: "12px",
-                            color: "#2563eb",
-                            textDecoration: "none",
-                          }}
-                        >
-                          Download
-                        </a>
-                      </div>
-                    ) : (
-                      "-"
-                    )}
-                  </td>
-
-                  <td
+                    QR
+                  </th>
+                  <th
                     style={{
-                      padding: "9px 12px",
-                      borderTop: "1px solid #e5e7eb",
+                      textAlign: "left",
+                      padding: "10px 12px",
+                      width: "30%",
                     }}
                   >
-                    <Link
-                      to={`/app/qrcodes/${qr.id}`}
-                      style={{ textDecoration: "none", color: "#111827" }}
-                    >
-                      {qr.title || "(no title)"}
-                    </Link>
-                  </td>
-                  <td
+                    Title
+                  </th>
+                  <th
                     style={{
-                      padding: "9px 12px",
-                      borderTop: "1px solid #e5e7eb",
+                      textAlign: "left",
+                      padding: "10px 12px",
+                      width: "35%",
                     }}
                   >
-                    {qr.productDeleted
-                      ? "Product deleted"
-                      : qr.productTitle || "-"}
-                  </td>
-                  <td
+                    Product
+                  </th>
+                  <th
                     style={{
-                      padding: "9px 12px",
-                      borderTop: "1px solid #e5e7eb",
+                      textAlign: "left",
+                      padding: "10px 12px",
                     }}
                   >
-                    {qr.createdAt
-                      ? new Date(qr.createdAt).toLocaleDateString()
-                      : "-"}
-                  </td>
-                  <td
+                    Date created
+                  </th>
+                  <th
                     style={{
-                      padding: "9px 12px",
-                      borderTop: "1px solid #e5e7eb",
                       textAlign: "right",
+                      padding: "10px 12px",
                     }}
                   >
-                    {qr.scans ?? 0}
-                  </td>
+                    Scans
+                  </th>
                 </tr>
-              ))}
-            </tbody>
-          </table>
+              </thead>
+              <tbody>
+                {qrCodes.map((qr: any) => (
+                  // each row links to the edit page for that QR code
+                  <tr key={qr.id}>
+                    {/* picked rows are sent to /app/labels as ?ids= */}
+                    <td
+                      style={{
+                        padding: "9px 12px",
+                        borderTop: "1px solid #e5e7eb",
+                      }}
+                    >
+                      <input
+                        type="checkbox"
+                        name="ids"
+                        value={qr.id}
+                        form="labels-form"
+                        aria-label={`Select ${qr.title || "QR code"}`}
+                      />
+                    </td>
+                    {/* QR preview + download link */}
+                    <td
+                      style={{
+                        padding: "9px 12px",
+                        borderTop: "1px solid #e5e7eb",
+                      }}
+                    >
+                      {qr.qrImage ? (
+                        <div
+                          style={{
+                            display: "flex",
+                            flexDirection: "column",
+                            alignItems: "flex-start",
+                            gap: "4px",
+                          }}
+                        >
+                          {/* small QR preview image */}
+                          <img
+                            src={qr.qrImage}
+                            alt="QR code"
+                            style={{
+                              width: "56px",
+                              height: "56px",
+                              objectFit: "contain",
+                              borderRadius: "4px",
+                              border: "1px solid #e5e7eb",
+                              backgroundColor: "#ffffff",
+                            }}
+                          />
+                          {/* download link that saves qr-<id>.png */}
+                          <a
+                            href={qr.qrImage}
+                            download={`qr-${qr.id}.png`}
+                            style={{
+                              fontSize: "12px",
+                              color: "#2563eb",
+                              textDecoration: "none",
+                            }}
+                          >
+                            Download
+                          </a>
+                        </div>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+
+                    <td
+                      style={{
+                        padding: "9px 12px",
+                        borderTop: "1px solid #e5e7eb",
+                      }}
+                    >
+                      <Link
+                        to={`/app/qrcodes/${qr.id}`}
+                        style={{ textDecoration: "none", color: "#111827" }}
+                      >
+                        {qr.title || "(no title)"}
+                      </Link>
+                    </td>
+                    <td
+                      style={{
+                        padding: "9px 12px",
+                        borderTop: "1px solid #e5e7eb",
+                      }}
+                    >
+                      {qr.productDeleted
+                        ? "Product deleted"
+                        : qr.productTitle || "-"}
+                    </td>
+                    <td
+                      style={{
+                        padding: "9px 12px",
+                        borderTop: "1px solid #e5e7eb",
+                      }}
+                    >
+                      {qr.createdAt
+                        ? new Date(qr.createdAt).toLocaleDateString()
+                        : "-"}
+                    </td>
+                    <td
+                      style={{
+                        padding: "9px 12px",
+                        borderTop: "1px solid #e5e7eb",
+                        textAlign: "right",
+                      }}
+                    >
+                      {qr.scans ?? 0}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <QRCodeListPagination
+            firstId={qrCodes[0]?.id}
+            lastId={qrCodes[qrCodes.length - 1]?.id}
+            hasPrevious={hasPrevious}
+            hasNext={hasNext}
+          />
         </section>
       )}
     </main>
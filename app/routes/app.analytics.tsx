@@ -0,0 +1,68 @@
+import type { LoaderFunctionArgs, HeadersFunction } from "react-router";
+import { useLoaderData, Link } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import { getScanAnalytics, getAnalyticsParams } from "../models/QRScan.server";
+import {
+  ScanAnalytics,
+  type ScanAnalyticsData,
+} from "../components/ScanAnalytics";
+
+type LoaderData = {
+  analytics: ScanAnalyticsData;
+};
+
+// loader builds shop-wide scan analytics for the selected range
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  // ?days=7|30|90&interval=day|week
+  const { interval, days } = getAnalyticsParams(request);
+
+  // null qrCodeId means "every QR code in this shop"
+  const analytics = await getScanAnalytics(session.shop, null, interval, days);
+
+  return { analytics } as LoaderData;
+}
+
+// main React component for /app/analytics
+export default function AnalyticsPage() {
+  const { analytics } = useLoaderData() as LoaderData;
+
+  return (
+    <main
+      style={{
+        padding: "24px",
+        fontFamily:
+          "Poppins, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+        maxWidth: "800px",
+        margin: "0 auto",
+      }}
+    >
+      <header style={{ marginBottom: "20px" }}>
+        <Link
+          to="/app"
+          style={{ fontSize: "14px", color: "#2563eb", textDecoration: "none" }}
+        >
+          ← All QR codes
+        </Link>
+        <h1
+          style={{
+            fontSize: "24px",
+            fontWeight: 600,
+            marginTop: "8px",
+          }}
+        >
+          Scan analytics
+        </h1>
+      </header>
+
+      <ScanAnalytics analytics={analytics} />
+    </main>
+  );
+}
+
+// this keeps Shopify’s special headers working for redirects and errors
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
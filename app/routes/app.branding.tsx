@@ -0,0 +1,187 @@
+import type {
+  LoaderFunctionArgs,
+  ActionFunctionArgs,
+  HeadersFunction,
+} from "react-router";
+import { useLoaderData, useNavigation, Form, redirect } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import {
+  getShopLogo,
+  saveShopLogo,
+  deleteShopLogo,
+} from "../models/ShopBranding.server";
+
+type LoaderData = {
+  // data URL of the saved logo, or null if none was uploaded yet
+  logoUrl: string | null;
+};
+
+// loader returns the current logo so the page can show it
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const logo = await getShopLogo(session.shop);
+
+  const loaderData: LoaderData = {
+    logoUrl: logo ? `data:image/png;base64,${logo.toString("base64")}` : null,
+  };
+  return loaderData;
+}
+
+// action uploads or removes the logo depending on "intent"
+export async function action({ request }: ActionFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  // multipart form data, "logo" is a File
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "delete") {
+    await deleteShopLogo(session.shop);
+  } else {
+    await saveShopLogo(session.shop, formData.get("logo"));
+  }
+
+  return redirect("/app/branding");
+}
+
+// main React component for /app/branding
+export default function BrandingPage() {
+  const { logoUrl } = useLoaderData() as LoaderData;
+
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <main
+      style={{
+        padding: "24px",
+        fontFamily:
+          "Poppins, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+        maxWidth: "640px",
+        margin: "0 auto",
+      }}
+    >
+      <header style={{ marginBottom: "20px" }}>
+        <h1
+          style={{
+            fontSize: "24px",
+            fontWeight: 600,
+            marginBottom: "4px",
+          }}
+        >
+          Branding
+        </h1>
+        <p
+          style={{
+            fontSize: "14px",
+            color: "#4b5563",
+          }}
+        >
+          Upload your logo once, then tick &quot;Show shop logo in the
+          centre&quot; on any QR code to brand it.
+        </p>
+      </header>
+
+      {/* current logo, if any */}
+      {logoUrl && (
+        <section
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "16px",
+            border: "1px solid #e5e7eb",
+            borderRadius: "8px",
+            padding: "16px",
+            marginBottom: "24px",
+            backgroundColor: "#f9fafb",
+          }}
+        >
+          <img
+            src={logoUrl}
+            alt="Shop logo"
+            style={{
+              width: "96px",
+              height: "96px",
+              objectFit: "contain",
+              backgroundColor: "#ffffff",
+              border: "1px solid #e5e7eb",
+              borderRadius: "4px",
+            }}
+          />
+          <Form method="post">
+            <button
+              type="submit"
+              name="intent"
+              value="delete"
+              disabled={isSubmitting}
+              style={{
+                padding: "8px 16px",
+                borderRadius: "6px",
+                border: "1px solid #dc2626",
+                backgroundColor: "white",
+                color: "#dc2626",
+                fontSize: "14px",
+                cursor: "pointer",
+              }}
+            >
+              Remove logo
+            </button>
+          </Form>
+        </section>
+      )}
+
+      {/* upload form, multipart so the file is sent */}
+      <Form method="post" encType="multipart/form-data">
+        <div style={{ marginBottom: "16px" }}>
+          <label
+            htmlFor="logo"
+            style={{ display: "block", fontSize: "14px", marginBottom: "4px" }}
+          >
+            {logoUrl ? "Replace logo" : "Logo"}
+          </label>
+          <input
+            id="logo"
+            name="logo"
+            type="file"
+            required
+            accept="image/png,image/jpeg,image/webp,image/svg+xml"
+            style={{ fontSize: "14px" }}
+          />
+          <p
+            style={{
+              fontSize: "12px",
+              color: "#6b7280",
+              marginTop: "4px",
+            }}
+          >
+            PNG, JPEG, WebP or SVG up to 2 MB. A simple square mark works best.
+          </p>
+        </div>
+
+        <button
+          type="submit"
+          name="intent"
+          value="upload"
+          disabled={isSubmitting}
+          style={{
+            padding: "8px 16px",
+            borderRadius: "6px",
+            border: "none",
+            backgroundColor: "#111827",
+            color: "white",
+            fontSize: "14px",
+            cursor: isSubmitting ? "default" : "pointer",
+          }}
+        >
+          {isSubmitting ? "Uploading..." : "Upload logo"}
+        </button>
+      </Form>
+    </main>
+  );
+}
+
+// this keeps Shopify’s special headers working for redirects and errors
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
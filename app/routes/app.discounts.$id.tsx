@@ -0,0 +1,236 @@
+import type {
+  LoaderFunctionArgs,
+  ActionFunctionArgs,
+  HeadersFunction,
+} from "react-router";
+import {
+  useLoaderData,
+  useActionData,
+  useNavigation,
+  redirect,
+  data,
+  Form,
+  Link,
+} from "react-router";
+import type { FormEvent } from "react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import {
+  getVolumeDiscount,
+  validateVolumeDiscountForm,
+  updateVolumeDiscount,
+  deleteVolumeDiscount,
+} from "../models/VolumeDiscount.server";
+import {
+  VolumeDiscountForm,
+  type VolumeDiscount,
+  type VolumeDiscountFormErrors,
+} from "../components/VolumeDiscountForm";
+
+// --------------------
+// types for loader data
+// --------------------
+
+type LoaderData = {
+  discount: VolumeDiscount;
+};
+
+// field-level messages when the form didn't validate (or Shopify said no)
+type ActionData = {
+  errors: VolumeDiscountFormErrors;
+};
+
+// small helper that checks the :id param is a numeric Shopify id
+function parseId(idParam: string | undefined) {
+  if (!idParam || !/^[0-9]+$/.test(idParam)) {
+    throw new Response("Invalid discount id", { status: 400 });
+  }
+
+  return idParam;
+}
+
+// --------------------
+// loader: runs on server
+// --------------------
+
+// this loader reads the discount + its tiers from Shopify
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const { admin } = await authenticate.admin(request);
+
+  const discount = await getVolumeDiscount(admin.graphql, parseId(params.id));
+
+  // missing, or an app discount that isn't run by our function
+  if (!discount) {
+    throw new Response("Volume discount not found", { status: 404 });
+  }
+
+  const loaderData: LoaderData = { discount };
+  return loaderData;
+}
+
+// --------------------
+// action: handle save + delete
+// --------------------
+
+// this action updates or deletes the discount depending on "intent"
+export async function action({ request, params }: ActionFunctionArgs) {
+  const { admin } = await authenticate.admin(request);
+
+  const id = parseId(params.id);
+
+  // the saved method decides which mutations apply (and proves the id is ours)
+  const discount = await getVolumeDiscount(admin.graphql, id);
+
+  if (!discount) {
+    throw new Response("Volume discount not found", { status: 404 });
+  }
+
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "delete") {
+    await deleteVolumeDiscount(admin.graphql, id, discount.method);
+    return redirect("/app/discounts");
+  }
+
+  // the method radios are disabled here, so the saved one decides if a code is read
+  const { fields, errors } = validateVolumeDiscountForm(
+    formData,
+    discount.method,
+  );
+
+  if (errors) {
+    const actionData: ActionData = { errors };
+    return data(actionData, { status: 400 });
+  }
+
+  const saveErrors = await updateVolumeDiscount(
+    admin.graphql,
+    id,
+    discount.method,
+    fields,
+  );
+
+  if (saveErrors) {
+    const actionData: ActionData = { errors: saveErrors };
+    return data(actionData, { status: 400 });
+  }
+
+  return redirect("/app/discounts");
+}
+
+// --------------------
+// React component: discount edit page
+// --------------------
+
+// this is the main React UI for /app/discounts/:id
+export default function EditVolumeDiscountPage() {
+  const { discount } = useLoaderData() as LoaderData;
+  const actionData = useActionData() as ActionData | undefined;
+
+  // this helps us show "Saving..." / "Deleting..." state on the buttons
+  const navigation = useNavigation();
+  const submittingIntent =
+    navigation.state === "submitting"
+      ? navigation.formData?.get("intent")
+      : null;
+
+  // ask before deleting, the discount stops applying right away
+  function confirmDelete(event: FormEvent<HTMLFormElement>) {
+    const confirmed = window.confirm(
+      "Delete this discount? Customers will stop getting it immediately.",
+    );
+
+    if (!confirmed) {
+      event.preventDefault();
+    }
+  }
+
+  return (
+    <main
+      style={{
+        padding: "24px",
+        fontFamily:
+          "Poppins, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+        maxWidth: "640px",
+        margin: "0 auto",
+      }}
+    >
+      {/* simple page header with a way back to the list */}
+      <header
+        style={{
+          marginBottom: "20px",
+        }}
+      >
+        <Link
+          to="/app/discounts"
+          style={{ fontSize: "14px", color: "#2563eb", textDecoration: "none" }}
+        >
+          ← All volume discounts
+        </Link>
+        <h1
+          style={{
+            fontSize: "24px",
+            fontWeight: 600,
+            marginTop: "8px",
+            marginBottom: "4px",
+          }}
+        >
+          {discount.title}
+        </h1>
+        <p
+          style={{
+            fontSize: "14px",
+            color: "#4b5563",
+          }}
+        >
+          {discount.method === "code"
+            ? `Code ${discount.code}`
+            : "Automatic discount"}{" "}
+          · {discount.status.toLowerCase()}
+        </p>
+      </header>
+
+      <VolumeDiscountForm
+        defaultValues={discount}
+        errors={actionData?.errors}
+        submitLabel="Save"
+        submittingLabel="Saving..."
+        isSubmitting={submittingIntent === "save"}
+      />
+
+      {/* delete is a separate form so it never submits the edit fields */}
+      <Form
+        method="post"
+        onSubmit={confirmDelete}
+        style={{
+          marginTop: "32px",
+          paddingTop: "16px",
+          borderTop: "1px solid #e5e7eb",
+        }}
+      >
+        <button
+          type="submit"
+          name="intent"
+          value="delete"
+          disabled={submittingIntent === "delete"}
+          style={{
+            padding: "8px 16px",
+            borderRadius: "6px",
+            border: "1px solid #dc2626",
+            backgroundColor: "white",
+            color: "#dc2626",
+            fontSize: "14px",
+            cursor: "pointer",
+          }}
+        >
+          {submittingIntent === "delete" ? "Deleting..." : "Delete discount"}
+        </button>
+      </Form>
+    </main>
+  );
+}
+
+// this keeps Shopify’s special headers working for redirects and errors
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
@@ -0,0 +1,205 @@
+import type { LoaderFunctionArgs, HeadersFunction } from "react-router";
+import { useLoaderData, Link } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import { getVolumeDiscounts } from "../models/VolumeDiscount.server";
+import type { VolumeDiscount } from "../components/VolumeDiscountForm";
+
+// --------------------
+// types for loader data
+// --------------------
+
+type LoaderData = {
+  discounts: VolumeDiscount[]; // the shop's discounts run by our function
+};
+
+// --------------------
+// loader: runs on server
+// --------------------
+
+// this loader lists the volume discounts straight from Shopify
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { admin } = await authenticate.admin(request);
+
+  const discounts: VolumeDiscount[] = await getVolumeDiscounts(admin.graphql);
+
+  const loaderData: LoaderData = { discounts };
+  return loaderData;
+}
+
+// "3+ → 5%, 6+ → 10%" for the table
+function describeTiers(discount: VolumeDiscount) {
+  const parts = discount.tiers.map(
+    (tier) => `${tier.minQuantity}+ → ${tier.percentage}%`,
+  );
+
+  // collection titles aren't loaded for the list, a count is enough here
+  const targets = [];
+  if (discount.collectionIds.length) {
+    targets.push(
+      discount.collectionIds.length === 1
+        ? "1 collection"
+        : `${discount.collectionIds.length} collections`,
+    );
+  }
+  if (discount.tags.length) {
+    targets.push(`tagged ${discount.tags.join(" / ")}`);
+  }
+  if (parts.length && targets.length) {
+    parts.push(`only ${targets.join(" or ")}`);
+  }
+
+  if (discount.delivery) {
+    parts.push(`${discount.delivery.percentage}% off delivery`);
+  }
+
+  return parts.join(", ");
+}
+
+// --------------------
+// React component: discount list page
+// --------------------
+
+// this is the main React UI for /app/discounts
+export default function VolumeDiscountsPage() {
+  const { discounts } = useLoaderData() as LoaderData;
+
+  return (
+    <main
+      style={{
+        padding: "24px",
+        fontFamily:
+          "Poppins, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+        maxWidth: "960px",
+        margin: "0 auto",
+      }}
+    >
+      <header
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: "24px",
+        }}
+      >
+        <div>
+          <h1
+            style={{
+              fontSize: "24px",
+              fontWeight: 600,
+              marginBottom: "4px",
+            }}
+          >
+            Volume discounts
+          </h1>
+          <p
+            style={{
+              fontSize: "14px",
+              color: "#4b5563",
+            }}
+          >
+            The more of a product customers buy, the bigger the discount.
+          </p>
+        </div>
+
+        <Link
+          to="/app/discounts/new"
+          style={{
+            padding: "8px 14px",
+            borderRadius: "6px",
+            backgroundColor: "#111827",
+            color: "white",
+            textDecoration: "none",
+            fontSize: "14px",
+          }}
+        >
+          + Create volume discount
+        </Link>
+      </header>
+
+      {discounts.length === 0 ? (
+        <section
+          style={{
+            border: "1px solid #e5e7eb",
+            borderRadius: "8px",
+            padding: "24px",
+            backgroundColor: "#f9fafb",
+          }}
+        >
+          <h2
+            style={{
+              fontSize: "18px",
+              fontWeight: 500,
+              marginBottom: 8,
+            }}
+          >
+            No volume discounts yet
+          </h2>
+          <p
+            style={{
+              fontSize: "14px",
+              color: "#4b5563",
+            }}
+          >
+            Create one to give customers a percentage off when they buy several
+            of the same product.
+          </p>
+        </section>
+      ) : (
+        <table
+          style={{
+            width: "100%",
+            borderCollapse: "collapse",
+            borderRadius: "8px",
+            overflow: "hidden",
+            border: "1px solid #e5e7eb",
+            fontSize: "14px",
+          }}
+        >
+          <thead style={{ backgroundColor: "#f3f4f6" }}>
+            <tr>
+              <th style={{ textAlign: "left", padding: "10px 12px" }}>Title</th>
+              <th style={{ textAlign: "left", padding: "10px 12px" }}>
+                Applies
+              </th>
+              <th style={{ textAlign: "left", padding: "10px 12px" }}>Tiers</th>
+              <th style={{ textAlign: "left", padding: "10px 12px" }}>
+                Status
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {discounts.map((discount) => (
+              <tr key={discount.id} style={{ borderTop: "1px solid #e5e7eb" }}>
+                <td style={{ padding: "10px 12px" }}>
+                  <Link
+                    to={`/app/discounts/${discount.id}`}
+                    style={{ color: "#2563eb", textDecoration: "none" }}
+                  >
+                    {discount.title}
+                  </Link>
+                </td>
+                <td style={{ padding: "10px 12px" }}>
+                  {discount.method === "code"
+                    ? `Code ${discount.code}`
+                    : "Automatic"}
+                </td>
+                <td style={{ padding: "10px 12px", color: "#4b5563" }}>
+                  {describeTiers(discount) || "—"}
+                </td>
+                <td style={{ padding: "10px 12px" }}>
+                  {discount.status.toLowerCase()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </main>
+  );
+}
+
+// keep Shopify's special headers working (same pattern as /app route)
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
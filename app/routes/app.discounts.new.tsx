@@ -0,0 +1,136 @@
+import type {
+  LoaderFunctionArgs,
+  ActionFunctionArgs,
+  HeadersFunction,
+} from "react-router";
+import {
+  useActionData,
+  useNavigation,
+  redirect,
+  data,
+  Link,
+} from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import {
+  validateVolumeDiscountForm,
+  createVolumeDiscount,
+} from "../models/VolumeDiscount.server";
+import {
+  VolumeDiscountForm,
+  type VolumeDiscountFormErrors,
+} from "../components/VolumeDiscountForm";
+
+// field-level messages when the form didn't validate (or Shopify said no)
+type ActionData = {
+  errors: VolumeDiscountFormErrors;
+};
+
+// --------------------
+// loader: runs on server
+// --------------------
+
+// nothing to load, this just makes sure the page is only shown inside the admin
+export async function loader({ request }: LoaderFunctionArgs) {
+  await authenticate.admin(request);
+  return null;
+}
+
+// --------------------
+// action: handle form submit
+// --------------------
+
+// this action creates the discount in Shopify, backed by our discount function
+export async function action({ request }: ActionFunctionArgs) {
+  const { admin } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+
+  // title, method, dates + the tiers that go into the config metafield
+  const { fields, errors } = validateVolumeDiscountForm(formData, null);
+
+  if (errors) {
+    const actionData: ActionData = { errors };
+    return data(actionData, { status: 400 });
+  }
+
+  const result = await createVolumeDiscount(admin.graphql, fields);
+
+  // e.g. the code is already used by another discount
+  if (result.errors) {
+    const actionData: ActionData = { errors: result.errors };
+    return data(actionData, { status: 400 });
+  }
+
+  return redirect("/app/discounts");
+}
+
+// --------------------
+// React component: discount create page
+// --------------------
+
+// this is the main React UI for /app/discounts/new
+export default function NewVolumeDiscountPage() {
+  const actionData = useActionData() as ActionData | undefined;
+
+  // this helps us show "Creating..." state on the button
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <main
+      style={{
+        padding: "24px",
+        fontFamily:
+          "Poppins, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+        maxWidth: "640px",
+        margin: "0 auto",
+      }}
+    >
+      {/* simple page header with a way back to the list */}
+      <header
+        style={{
+          marginBottom: "20px",
+        }}
+      >
+        <Link
+          to="/app/discounts"
+          style={{ fontSize: "14px", color: "#2563eb", textDecoration: "none" }}
+        >
+          ← All volume discounts
+        </Link>
+        <h1
+          style={{
+            fontSize: "24px",
+            fontWeight: 600,
+            marginTop: "8px",
+            marginBottom: "4px",
+          }}
+        >
+          Create volume discount
+        </h1>
+        <p
+          style={{
+            fontSize: "14px",
+            color: "#4b5563",
+          }}
+        >
+          Reward customers who buy more of a product, e.g. 5% off 3 or more and
+          10% off 6 or more.
+        </p>
+      </header>
+
+      <VolumeDiscountForm
+        errors={actionData?.errors}
+        submitLabel="Create discount"
+        submittingLabel="Creating..."
+        isSubmitting={isSubmitting}
+      />
+    </main>
+  );
+}
+
+// this keeps Shopify’s special headers working for redirects and errors
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
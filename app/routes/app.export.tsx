@@ -0,0 +1,20 @@
+import type { LoaderFunctionArgs } from "react-router";
+
+import { authenticate } from "../shopify.server";
+import {
+  getExportOptions,
+  createExportResponse,
+} from "../models/QRCodeExport.server";
+
+// loader streams the shop's QR codes or scan events as CSV / JSON
+// (this is a resource route, the list page fetches it and downloads the blob)
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  // ?format=csv|json&data=qrcodes|scans (throws a 400 Response if invalid)
+  const { format, dataset } = getExportOptions(
+    new URL(request.url).searchParams,
+  );
+
+  return createExportResponse(session.shop, format, dataset);
+}
@@ -0,0 +1,67 @@
+import type { ActionFunctionArgs } from "react-router";
+import { Buffer } from "node:buffer";
+
+import { authenticate } from "../shopify.server";
+import { getQRCodesForLabels } from "../models/QRCode.server";
+import {
+  MAX_LABEL_QR_CODES,
+  MAX_LABELS,
+  getLabelTemplate,
+  renderLabelSheet,
+} from "../models/LabelSheet.server";
+
+// action returns the label sheet PDF for the QR codes posted from /app/labels
+// (this is a resource route, the page fetches it and downloads the blob)
+export async function action({ request }: ActionFunctionArgs) {
+  const { admin, session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+
+  // every picked QR is sent as its own "ids" field
+  const ids = formData
+    .getAll("ids")
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id > 0);
+
+  if (ids.length === 0) {
+    return new Response("Pick at least one QR code.", { status: 400 });
+  }
+
+  if (ids.length > MAX_LABEL_QR_CODES) {
+    return new Response(
+      `You can print labels for at most ${MAX_LABEL_QR_CODES} QR codes at once.`,
+      { status: 400 },
+    );
+  }
+
+  const copies = Number(formData.get("copies") || 1);
+  if (!Number.isInteger(copies) || copies < 1 || copies > 100) {
+    return new Response("Copies must be a whole number from 1 to 100.", {
+      status: 400,
+    });
+  }
+
+  // every label is drawn into the same in-memory PDF
+  if (ids.length * copies > MAX_LABELS) {
+    return new Response(
+      `One PDF can hold at most ${MAX_LABELS} labels, print fewer copies or QR codes.`,
+      { status: 400 },
+    );
+  }
+
+  // Avery template or a custom label size (throws a 400 Response if invalid)
+  const template = getLabelTemplate(formData);
+
+  // rows with product names, only from this shop (images are rendered for print)
+  const qrCodes = await getQRCodesForLabels(session.shop, admin.graphql, ids);
+
+  const pdf = await renderLabelSheet(qrCodes, template, copies);
+
+  return new Response(Buffer.from(pdf), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": 'attachment; filename="qr-labels.pdf"',
+    },
+  });
+}
@@ -0,0 +1,296 @@
+import type { LoaderFunctionArgs, HeadersFunction } from "react-router";
+import { useLoaderData, Link } from "react-router";
+import { useState, type FormEvent } from "react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import { getQRCodeTitles } from "../models/QRCode.server";
+import { LABEL_TEMPLATES } from "../models/LabelSheet.server";
+
+type LoaderData = {
+  qrCodes: { id: number; title: string; productTitle: string | null }[];
+  templates: { id: string; name: string }[];
+};
+
+// loader reads the picked QR ids (?ids=1&ids=2) from the list page
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const url = new URL(request.url);
+  const ids = url.searchParams
+    .getAll("ids")
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id > 0);
+
+  // no ids → nothing to print, the page explains how to pick some
+  // only the columns the page lists, the PDF route renders the images
+  const qrCodes = ids.length ? await getQRCodeTitles(session.shop, ids) : [];
+
+  const loaderData: LoaderData = {
+    qrCodes,
+    templates: Object.entries(LABEL_TEMPLATES).map(([id, template]) => ({
+      id,
+      name: template.name,
+    })),
+  };
+  return loaderData;
+}
+
+const inputStyle = {
+  width: "100%",
+  padding: "8px 10px",
+  borderRadius: "6px",
+  border: "1px solid #d1d5db",
+  fontSize: "14px",
+};
+
+// main React component for /app/labels
+export default function LabelsPage() {
+  const { qrCodes, templates } = useLoaderData() as LoaderData;
+
+  const [template, setTemplate] = useState(templates[0]?.id ?? "custom");
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // the PDF comes from a resource route, so we fetch it and save the blob
+  // (App Bridge adds the session token to fetch calls for us)
+  async function downloadPdf(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setIsDownloading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/app/labels/pdf", {
+        method: "POST",
+        body: new FormData(event.currentTarget),
+      });
+
+      if (!response.ok) {
+        setError(await response.text());
+        return;
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "qr-labels.pdf";
+      link.click();
+      URL.revokeObjectURL(url);
+    } finally {
+      setIsDownloading(false);
+    }
+  }
+
+  return (
+    <main
+      style={{
+        padding: "24px",
+        fontFamily:
+          "Poppins, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+        maxWidth: "640px",
+        margin: "0 auto",
+      }}
+    >
+      <header style={{ marginBottom: "20px" }}>
+        <Link
+          to="/app"
+          style={{ fontSize: "14px", color: "#2563eb", textDecoration: "none" }}
+        >
+          ← All QR codes
+        </Link>
+        <h1
+          style={{
+            fontSize: "24px",
+            fontWeight: 600,
+            marginTop: "8px",
+          }}
+        >
+          Print labels
+        </h1>
+      </header>
+
+      {qrCodes.length === 0 ? (
+        <p style={{ fontSize: "14px", color: "#4b5563" }}>
+          Tick the QR codes you want to print on the list page, then click
+          &quot;Print labels&quot;.
+        </p>
+      ) : (
+        <form onSubmit={downloadPdf}>
+          {/* the picked QR codes, sent along as hidden ids */}
+          <section
+            style={{
+              border: "1px solid #e5e7eb",
+              borderRadius: "8px",
+              padding: "16px",
+              marginBottom: "20px",
+              backgroundColor: "#f9fafb",
+              fontSize: "14px",
+            }}
+          >
+            <p style={{ fontWeight: 500, marginBottom: "8px" }}>
+              {qrCodes.length} QR code{qrCodes.length === 1 ? "" : "s"}
+            </p>
+            <ul style={{ margin: 0, paddingLeft: "18px" }}>
+              {qrCodes.map((qr) => (
+                <li key={qr.id}>
+                  <input type="hidden" name="ids" value={qr.id} />
+                  {qr.title} {qr.productTitle ? `· ${qr.productTitle}` : ""}
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <div style={{ marginBottom: "16px" }}>
+            <label
+              htmlFor="template"
+              style={{
+                display: "block",
+                fontSize: "14px",
+                marginBottom: "4px",
+              }}
+            >
+              Label sheet
+            </label>
+            <select
+              id="template"
+              name="template"
+              value={template}
+              onChange={(event) => setTemplate(event.target.value)}
+              style={inputStyle}
+            >
+              {templates.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.name}
+                </option>
+              ))}
+              <option value="custom">Custom label size</option>
+            </select>
+          </div>
+
+          {/* custom size fields, only when "custom" is picked */}
+          {template === "custom" && (
+            <div style={{ display: "flex", gap: "12px", marginBottom: "16px" }}>
+              <div style={{ flex: 1 }}>
+                <label
+                  htmlFor="page"
+                  style={{
+                    display: "block",
+                    fontSize: "14px",
+                    marginBottom: "4px",
+                  }}
+                >
+                  Page
+                </label>
+                <select
+                  id="page"
+                  name="page"
+                  defaultValue="letter"
+                  style={inputStyle}
+                >
+                  <option value="letter">Letter</option>
+                  <option value="a4">A4</option>
+                </select>
+              </div>
+              <div style={{ flex: 1 }}>
+                <label
+                  htmlFor="labelWidth"
+                  style={{
+                    display: "block",
+                    fontSize: "14px",
+                    marginBottom: "4px",
+                  }}
+                >
+                  Width (mm)
+                </label>
+                <input
+                  id="labelWidth"
+                  name="labelWidth"
+                  type="number"
+                  min={20}
+                  max={200}
+                  defaultValue={50}
+                  style={inputStyle}
+                />
+              </div>
+              <div style={{ flex: 1 }}>
+                <label
+                  htmlFor="labelHeight"
+                  style={{
+                    display: "block",
+                    fontSize: "14px",
+                    marginBottom: "4px",
+                  }}
+                >
+                  Height (mm)
+                </label>
+                <input
+                  id="labelHeight"
+                  name="labelHeight"
+                  type="number"
+                  min={20}
+                  max={280}
+                  defaultValue={50}
+                  style={inputStyle}
+                />
+              </div>
+            </div>
+          )}
+
+          <div style={{ marginBottom: "20px" }}>
+            <label
+              htmlFor="copies"
+              style={{
+                display: "block",
+                fontSize: "14px",
+                marginBottom: "4px",
+              }}
+            >
+              Copies of each QR
+            </label>
+            <input
+              id="copies"
+              name="copies"
+              type="number"
+              min={1}
+              max={100}
+              defaultValue={1}
+              style={inputStyle}
+            />
+          </div>
+
+          {error && (
+            <p
+              style={{
+                fontSize: "14px",
+                color: "#dc2626",
+                marginBottom: "12px",
+              }}
+            >
+              {error}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={isDownloading}
+            style={{
+              padding: "8px 16px",
+              borderRadius: "6px",
+              border: "none",
+              backgroundColor: "#111827",
+              color: "white",
+              fontSize: "14px",
+              cursor: isDownloading ? "default" : "pointer",
+            }}
+          >
+            {isDownloading ? "Building PDF..." : "Download PDF"}
+          </button>
+        </form>
+      )}
+    </main>
+  );
+}
+
+// this keeps Shopify’s special headers working for redirects and errors
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
@@ -0,0 +1,238 @@
+import type {
+  LoaderFunctionArgs,
+  ActionFunctionArgs,
+  HeadersFunction,
+} from "react-router";
+import {
+  useLoaderData,
+  useActionData,
+  useNavigation,
+  redirect,
+  data,
+  Form,
+  Link,
+} from "react-router";
+import type { FormEvent } from "react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import {
+  getProductDiscount,
+  validateProductDiscountForm,
+  updateProductDiscount,
+  deleteProductDiscount,
+} from "../models/ProductDiscount.server";
+import {
+  ProductDiscountForm,
+  type ProductDiscount,
+  type ProductDiscountFormErrors,
+} from "../components/ProductDiscountForm";
+
+// --------------------
+// types for loader data
+// --------------------
+
+type LoaderData = {
+  productDiscount: ProductDiscount;
+};
+
+// field-level messages when the form didn't validate (or the sync failed)
+type ActionData = {
+  errors: ProductDiscountFormErrors;
+};
+
+// small helper that checks the :id param is there (rows use cuid ids)
+function parseId(idParam: string | undefined) {
+  if (!idParam) {
+    throw new Response("Invalid product discount id", { status: 400 });
+  }
+
+  return idParam;
+}
+
+// --------------------
+// loader: runs on server
+// --------------------
+
+// this loader reads the row + its product title
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const { admin, session } = await authenticate.admin(request);
+
+  const productDiscount: ProductDiscount | null = await getProductDiscount(
+    parseId(params.id),
+    session.shop,
+    admin.graphql,
+  );
+
+  if (!productDiscount) {
+    throw new Response("Product discount not found", { status: 404 });
+  }
+
+  const loaderData: LoaderData = { productDiscount };
+  return loaderData;
+}
+
+// --------------------
+// action: handle save + delete
+// --------------------
+
+// this action updates or deletes the row depending on "intent",
+// both push the shop's remaining rows to the function
+export async function action({ request, params }: ActionFunctionArgs) {
+  const { admin, session } = await authenticate.admin(request);
+
+  const id = parseId(params.id);
+  const formData = await request.formData();
+
+  try {
+    if (formData.get("intent") === "delete") {
+      await deleteProductDiscount(id, session.shop, admin.graphql);
+      return redirect("/app/product-discounts");
+    }
+
+    const { fields, errors } = await validateProductDiscountForm(
+      formData,
+      session.shop,
+      id,
+    );
+
+    if (errors) {
+      const actionData: ActionData = { errors };
+      return data(actionData, { status: 400 });
+    }
+
+    const updated = await updateProductDiscount(
+      id,
+      session.shop,
+      admin.graphql,
+      fields,
+    );
+
+    if (!updated) {
+      throw new Response("Product discount not found", { status: 404 });
+    }
+  } catch (error) {
+    // a 400 means Shopify rejected the config and the row was put back
+    if (error instanceof Response && error.status === 400) {
+      const actionData: ActionData = { errors: { form: await error.text() } };
+      return data(actionData, { status: 400 });
+    }
+    throw error;
+  }
+
+  return redirect("/app/product-discounts");
+}
+
+// --------------------
+// React component: product discount edit page
+// --------------------
+
+// this is the main React UI for /app/product-discounts/:id
+export default function EditProductDiscountPage() {
+  const { productDiscount } = useLoaderData() as LoaderData;
+  const actionData = useActionData() as ActionData | undefined;
+
+  // this helps us show "Saving..." / "Deleting..." state on the buttons
+  const navigation = useNavigation();
+  const submittingIntent =
+    navigation.state === "submitting"
+      ? navigation.formData?.get("intent")
+      : null;
+
+  // ask before deleting, the discount stops applying right away
+  function confirmDelete(event: FormEvent<HTMLFormElement>) {
+    const confirmed = window.confirm(
+      "Delete this discount? Customers will stop getting it immediately.",
+    );
+
+    if (!confirmed) {
+      event.preventDefault();
+    }
+  }
+
+  return (
+    <main
+      style={{
+        padding: "24px",
+        fontFamily:
+          "Poppins, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+        maxWidth: "640px",
+        margin: "0 auto",
+      }}
+    >
+      {/* simple page header with a way back to the list */}
+      <header
+        style={{
+          marginBottom: "20px",
+        }}
+      >
+        <Link
+          to="/app/product-discounts"
+          style={{ fontSize: "14px", color: "#2563eb", textDecoration: "none" }}
+        >
+          ← All product discounts
+        </Link>
+        <h1
+          style={{
+            fontSize: "24px",
+            fontWeight: 600,
+            marginTop: "8px",
+            marginBottom: "4px",
+          }}
+        >
+          {productDiscount.title}
+        </h1>
+        <p
+          style={{
+            fontSize: "14px",
+            color: "#4b5563",
+          }}
+        >
+          {productDiscount.percentage}% off{" "}
+          {productDiscount.productTitle ?? "a deleted product"}
+        </p>
+      </header>
+
+      <ProductDiscountForm
+        defaultValues={productDiscount}
+        errors={actionData?.errors}
+        submitLabel="Save"
+        submittingLabel="Saving..."
+        isSubmitting={submittingIntent === "save"}
+      />
+
+      {/* delete is a separate form so it never submits the edit fields */}
+      <Form
+        method="post"
+        onSubmit={confirmDelete}
+        style={{
+          marginTop: "32px",
+          paddingTop: "16px",
+          borderTop: "1px solid #e5e7eb",
+        }}
+      >
+        <button
+          type="submit"
+          name="intent"
+          value="delete"
+          disabled={submittingIntent === "delete"}
+          style={{
+            padding: "8px 16px",
+            borderRadius: "6px",
+            border: "1px solid #dc2626",
+            backgroundColor: "white",
+            color: "#dc2626",
+            fontSize: "14px",
+            cursor: "pointer",
+          }}
+        >
+          {submittingIntent === "delete" ? "Deleting..." : "Delete discount"}
+        </button>
+      </Form>
+    </main>
+  );
+}
+
+// this keeps Shopify’s special headers working for redirects and errors
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
@@ -0,0 +1,203 @@
+import type { LoaderFunctionArgs, HeadersFunction } from "react-router";
+import { useLoaderData, Link } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import {
+  getProductDiscounts,
+  retryProductDiscountSync,
+} from "../models/ProductDiscount.server";
+import type { ProductDiscount } from "../components/ProductDiscountForm";
+
+// --------------------
+// types for loader data
+// --------------------
+
+type LoaderData = {
+  productDiscounts: ProductDiscount[];
+  syncError: string | null; // set while Shopify doesn't have the latest rows
+};
+
+// --------------------
+// loader: runs on server
+// --------------------
+
+// this loader lists the shop's product discounts with their product titles
+// and first retries a sync that didn't reach Shopify earlier
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { admin, session } = await authenticate.admin(request);
+
+  const syncError = await retryProductDiscountSync(session.shop, admin.graphql);
+
+  const productDiscounts: ProductDiscount[] = await getProductDiscounts(
+    session.shop,
+    admin.graphql,
+  );
+
+  const loaderData: LoaderData = { productDiscounts, syncError };
+  return loaderData;
+}
+
+// --------------------
+// React component: product discount list page
+// --------------------
+
+// this is the main React UI for /app/product-discounts
+export default function ProductDiscountsPage() {
+  const { productDiscounts, syncError } = useLoaderData() as LoaderData;
+
+  return (
+    <main
+      style={{
+        padding: "24px",
+        fontFamily:
+          "Poppins, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+        maxWidth: "960px",
+        margin: "0 auto",
+      }}
+    >
+      <header
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: "24px",
+        }}
+      >
+        <div>
+          <h1
+            style={{
+              fontSize: "24px",
+              fontWeight: 600,
+              marginBottom: "4px",
+            }}
+          >
+            Product discounts
+          </h1>
+          <p
+            style={{
+              fontSize: "14px",
+              color: "#4b5563",
+            }}
+          >
+            A fixed percentage off a product, applied automatically at checkout.
+          </p>
+        </div>
+
+        <Link
+          to="/app/product-discounts/new"
+          style={{
+            padding: "8px 14px",
+            borderRadius: "6px",
+            backgroundColor: "#111827",
+            color: "white",
+            textDecoration: "none",
+            fontSize: "14px",
+          }}
+        >
+          + Create product discount
+        </Link>
+      </header>
+
+      {/* the table is saved, but checkout may still use the previous percentages */}
+      {syncError && (
+        <p
+          role="alert"
+          style={{
+            fontSize: "14px",
+            color: "#dc2626",
+            marginBottom: "16px",
+          }}
+        >
+          Checkout doesn&apos;t have these discounts yet: {syncError} We&apos;ll
+          try again the next time this page loads.
+        </p>
+      )}
+
+      {productDiscounts.length === 0 ? (
+        <section
+          style={{
+            border: "1px solid #e5e7eb",
+            borderRadius: "8px",
+            padding: "24px",
+            backgroundColor: "#f9fafb",
+          }}
+        >
+          <h2
+            style={{
+              fontSize: "18px",
+              fontWeight: 500,
+              marginBottom: 8,
+            }}
+          >
+            No product discounts yet
+          </h2>
+          <p
+            style={{
+              fontSize: "14px",
+              color: "#4b5563",
+            }}
+          >
+            Create one to take a percentage off every variant of a product,
+            whatever quantity customers buy.
+          </p>
+        </section>
+      ) : (
+        <table
+          style={{
+            width: "100%",
+            borderCollapse: "collapse",
+            borderRadius: "8px",
+            overflow: "hidden",
+            border: "1px solid #e5e7eb",
+            fontSize: "14px",
+          }}
+        >
+          <thead style={{ backgroundColor: "#f3f4f6" }}>
+            <tr>
+              <th style={{ textAlign: "left", padding: "10px 12px" }}>Title</th>
+              <th style={{ textAlign: "left", padding: "10px 12px" }}>
+                Product
+              </th>
+              <th style={{ textAlign: "left", padding: "10px 12px" }}>
+                Discount
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {productDiscounts.map((productDiscount) => (
+              <tr
+                key={productDiscount.id}
+                style={{ borderTop: "1px solid #e5e7eb" }}
+              >
+                <td style={{ padding: "10px 12px" }}>
+                  <Link
+                    to={`/app/product-discounts/${productDiscount.id}`}
+                    style={{ color: "#2563eb", textDecoration: "none" }}
+                  >
+                    {productDiscount.title}
+                  </Link>
+                </td>
+                <td
+                  style={{
+                    padding: "10px 12px",
+                    color: productDiscount.productTitle ? undefined : "#dc2626",
+                  }}
+                >
+                  {productDiscount.productTitle ?? "Deleted product"}
+                </td>
+                <td style={{ padding: "10px 12px" }}>
+                  {productDiscount.percentage}%
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </main>
+  );
+}
+
+// keep Shopify's special headers working (same pattern as /app route)
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
@@ -0,0 +1,142 @@
+import type {
+  LoaderFunctionArgs,
+  ActionFunctionArgs,
+  HeadersFunction,
+} from "react-router";
+import {
+  useActionData,
+  useNavigation,
+  redirect,
+  data,
+  Link,
+} from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import {
+  validateProductDiscountForm,
+  createProductDiscount,
+} from "../models/ProductDiscount.server";
+import {
+  ProductDiscountForm,
+  type ProductDiscountFormErrors,
+} from "../components/ProductDiscountForm";
+
+// field-level messages when the form didn't validate (or the sync failed)
+type ActionData = {
+  errors: ProductDiscountFormErrors;
+};
+
+// --------------------
+// loader: runs on server
+// --------------------
+
+// nothing to load, this just makes sure the page is only shown inside the admin
+export async function loader({ request }: LoaderFunctionArgs) {
+  await authenticate.admin(request);
+  return null;
+}
+
+// --------------------
+// action: handle form submit
+// --------------------
+
+// this action saves the row and pushes all the shop's rows to the function
+export async function action({ request }: ActionFunctionArgs) {
+  const { admin, session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+
+  const { fields, errors } = await validateProductDiscountForm(
+    formData,
+    session.shop,
+    null,
+  );
+
+  if (errors) {
+    const actionData: ActionData = { errors };
+    return data(actionData, { status: 400 });
+  }
+
+  try {
+    await createProductDiscount(session.shop, admin.graphql, fields);
+  } catch (error) {
+    // a 400 means Shopify rejected the config and the row was put back
+    if (error instanceof Response && error.status === 400) {
+      const actionData: ActionData = { errors: { form: await error.text() } };
+      return data(actionData, { status: 400 });
+    }
+    throw error;
+  }
+
+  return redirect("/app/product-discounts");
+}
+
+// --------------------
+// React component: product discount create page
+// --------------------
+
+// this is the main React UI for /app/product-discounts/new
+export default function NewProductDiscountPage() {
+  const actionData = useActionData() as ActionData | undefined;
+
+  // this helps us show "Creating..." state on the button
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <main
+      style={{
+        padding: "24px",
+        fontFamily:
+          "Poppins, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+        maxWidth: "640px",
+        margin: "0 auto",
+      }}
+    >
+      {/* simple page header with a way back to the list */}
+      <header
+        style={{
+          marginBottom: "20px",
+        }}
+      >
+        <Link
+          to="/app/product-discounts"
+          style={{ fontSize: "14px", color: "#2563eb", textDecoration: "none" }}
+        >
+          ← All product discounts
+        </Link>
+        <h1
+          style={{
+            fontSize: "24px",
+            fontWeight: 600,
+            marginTop: "8px",
+            marginBottom: "4px",
+          }}
+        >
+          Create product discount
+        </h1>
+        <p
+          style={{
+            fontSize: "14px",
+            color: "#4b5563",
+          }}
+        >
+          Take a fixed percentage off every variant of one product, applied
+          automatically at checkout.
+        </p>
+      </header>
+
+      <ProductDiscountForm
+        errors={actionData?.errors}
+        submitLabel="Create discount"
+        submittingLabel="Creating..."
+        isSubmitting={isSubmitting}
+      />
+    </main>
+  );
+}
+
+// this keeps Shopify’s special headers working for redirects and errors
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
@@ -0,0 +1,433 @@
+import type {
+  LoaderFunctionArgs,
+  ActionFunctionArgs,
+  HeadersFunction,
+} from "react-router";
+import {
+  useLoaderData,
+  useActionData,
+  useNavigation,
+  redirect,
+  data,
+  Form,
+  Link,
+} from "react-router";
+import { useState, type FormEvent } from "react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import {
+  getQRCode,
+  getVariantSummary,
+  getVariantSummaries,
+  getCollectionOptions,
+  updateQRCode,
+} from "../models/QRCode.server";
+import {
+  QRCodeForm,
+  type CollectionOption,
+  type QRCodeFormErrors,
+} from "../components/QRCodeForm";
+import {
+  getVariantLabel,
+  type PickedVariant,
+} from "../components/VariantPicker";
+import type { CartLineValue } from "../components/CartLinesEditor";
+import { hasShopLogo } from "../models/ShopBranding.server";
+import { validateQRCodeForm } from "../models/QRCodeValidation.server";
+
+// --------------------
+// types for loader data
+// --------------------
+
+type LoaderData = {
+  // the QR row plus product info + image (from getQRCode)
+  qrCode: NonNullable<Awaited<ReturnType<typeof getQRCode>>>;
+  collections: CollectionOption[]; // for the "collection" destination
+  hasLogo: boolean; // enables the "show shop logo" checkbox
+  fallbackVariant: PickedVariant | null; // the saved replacement variant, for its picker
+  cartLines: CartLineValue[]; // the saved cart lines, for their pickers
+};
+
+// field-level messages when the form didn't validate
+type ActionData = {
+  errors: QRCodeFormErrors;
+};
+
+// small helper that turns the :id param into a number (Prisma uses Int ids)
+function parseId(idParam: string | undefined) {
+  const id = Number(idParam);
+
+  // "1.5" or "-1" would reach Prisma's Int filter and throw, so only whole ids pass
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Response("Invalid QR code id", { status: 400 });
+  }
+
+  return id;
+}
+
+// --------------------
+// loader: runs on server
+// --------------------
+
+// this loader fetches one QR code + what its pickers show
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  // authenticate the admin request so we can call Admin GraphQL
+  const { admin, session } = await authenticate.admin(request);
+
+  const id = parseId(params.id);
+
+  // load the row with product info + QR image attached
+  const qrCode = await getQRCode(id, admin.graphql);
+
+  // a QR from another shop should look exactly like a missing one
+  if (!qrCode || qrCode.shop !== session.shop) {
+    throw new Response("QR code not found", { status: 404 });
+  }
+
+  const collections: CollectionOption[] = await getCollectionOptions(
+    admin.graphql,
+  );
+  const hasLogo = await hasShopLogo(session.shop);
+
+  // only the id is saved, the picker also needs the product + titles
+  const fallback = await getVariantSummary(
+    admin.graphql,
+    qrCode.fallbackVariantId,
+  );
+  const fallbackVariant: PickedVariant | null = fallback
+    ? {
+        productId: fallback.productId,
+        variantId: fallback.variantId,
+        handle: fallback.handle,
+        label: getVariantLabel(fallback.productTitle, fallback.variantTitle),
+      }
+    : null;
+
+  // one batched lookup for all the cart lines' variants
+  const lineItems: { productVariantId: string; quantity: number }[] =
+    qrCode.lineItems;
+  const lineVariants = await getVariantSummaries(
+    admin.graphql,
+    lineItems.map((line) => line.productVariantId),
+  );
+  const cartLines: CartLineValue[] = lineItems.map((line) => {
+    const variant = lineVariants.get(line.productVariantId);
+    return {
+      // a deleted variant shows as "same as above" until it's picked again
+      variant: variant
+        ? {
+            productId: variant.productId,
+            variantId: variant.variantId,
+            handle: variant.handle,
+            label: getVariantLabel(variant.productTitle, variant.variantTitle),
+          }
+        : null,
+      quantity: line.quantity,
+    };
+  });
+
+  const loaderData: LoaderData = {
+    qrCode,
+    collections,
+    hasLogo,
+    fallbackVariant,
+    cartLines,
+  };
+  return loaderData;
+}
+
+// --------------------
+// action: handle save + delete
+// --------------------
+
+// this action updates or deletes the QRCode row depending on "intent"
+export async function action({ request, params }: ActionFunctionArgs) {
+  const { admin, session } = await authenticate.admin(request);
+  const shop = session.shop;
+
+  const id = parseId(params.id);
+  const formData = await request.formData();
+
+  if (formData.get("intent") === "delete") {
+    // deleteMany lets us also match on shop, so we never touch another shop's row
+    await db.qRCode.deleteMany({
+      where: { id, shop },
+    });
+
+    return redirect("/app");
+  }
+
+  // title, product/variant and destination from the shared form
+  const { fields, errors } = await validateQRCodeForm(formData, admin.graphql);
+
+  // invalid fields are shown next to the inputs, the typed values stay in the form
+  if (errors) {
+    const actionData: ActionData = { errors };
+    return data(actionData, { status: 400 });
+  }
+
+  // saves the columns + replaces the cart lines (also matches on shop)
+  let updated;
+  try {
+    updated = await updateQRCode(id, shop, fields);
+  } catch (error) {
+    // the branded-QR scan check can only run while saving, it's about the logo
+    if (error instanceof Response && error.status === 400) {
+      const actionData: ActionData = {
+        errors: { showLogo: await error.text() },
+      };
+      return data(actionData, { status: 400 });
+    }
+    throw error;
+  }
+
+  if (!updated) {
+    throw new Response("QR code not found", { status: 404 });
+  }
+
+  // after saving, go back to the main /app list page
+  return redirect("/app");
+}
+
+// --------------------
+// React component: QR edit page
+// --------------------
+
+// this is the main React UI for /app/qrcodes/:id
+export default function EditQRCodePage() {
+  const { qrCode, collections, hasLogo, fallbackVariant, cartLines } =
+    useLoaderData() as LoaderData;
+  const actionData = useActionData() as ActionData | undefined;
+
+  // this helps us show "Saving..." / "Deleting..." state on the buttons
+  const navigation = useNavigation();
+  const submittingIntent =
+    navigation.state === "submitting"
+      ? navigation.formData?.get("intent")
+      : null;
+
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  // downloads come from an authenticated resource route, so we fetch the file
+  // and save the blob (App Bridge adds the session token to fetch calls for us)
+  async function downloadImage(format: "png" | "svg") {
+    setDownloadError(null);
+
+    const response = await fetch(
+      `/app/qrcodes/${qrCode.id}/image?format=${format}`,
+    );
+
+    if (!response.ok) {
+      setDownloadError(await response.text());
+      return;
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `qr-${qrCode.id}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // ask before deleting, because printed QR codes will stop working
+  function confirmDelete(event: FormEvent<HTMLFormElement>) {
+    const confirmed = window.confirm(
+      "Delete this QR code? Printed copies will stop redirecting customers.",
+    );
+
+    if (!confirmed) {
+      event.preventDefault();
+    }
+  }
+
+  return (
+    <main
+      style={{
+        padding: "24px",
+        fontFamily:
+          "Poppins, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+        maxWidth: "640px",
+        margin: "0 auto",
+      }}
+    >
+      {/* simple page header with a way back to the list */}
+      <header
+        style={{
+          marginBottom: "20px",
+        }}
+      >
+        <Link
+          to="/app"
+          style={{ fontSize: "14px", color: "#2563eb", textDecoration: "none" }}
+        >
+          ← All QR codes
+        </Link>
+        <h1
+          style={{
+            fontSize: "24px",
+            fontWeight: 600,
+            marginTop: "8px",
+            marginBottom: "4px",
+          }}
+        >
+          {qrCode.title || "(no title)"}
+        </h1>
+        <p
+          style={{
+            fontSize: "14px",
+            color: "#4b5563",
+          }}
+        >
+          {qrCode.productTitle || "Product not found"} · created{" "}
+          {new Date(qrCode.createdAt).toLocaleDateString()}
+        </p>
+      </header>
+
+      {/* the product is gone, scans use the fallback set in the form below */}
+      {qrCode.productDeleted && (
+        <section
+          role="alert"
+          style={{
+            border: "1px solid #fcd34d",
+            borderRadius: "8px",
+            padding: "12px 16px",
+            marginBottom: "24px",
+            backgroundColor: "#fffbeb",
+            fontSize: "14px",
+            color: "#92400e",
+          }}
+        >
+          This QR&apos;s product or variant was deleted or archived. Scans go to
+          the fallback below until you pick another variant and save.
+        </section>
+      )}
+
+      {/* QR preview + scan count */}
+      <section
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "20px",
+          border: "1px solid #e5e7eb",
+          borderRadius: "8px",
+          padding: "16px",
+          marginBottom: "24px",
+          backgroundColor: "#f9fafb",
+        }}
+      >
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            gap: "6px",
+          }}
+        >
+          <img
+            src={qrCode.qrImage}
+            alt={`QR code for ${qrCode.title}`}
+            style={{
+              width: "140px",
+              height: "140px",
+              objectFit: "contain",
+              borderRadius: "4px",
+              border: "1px solid #e5e7eb",
+              backgroundColor: "#ffffff",
+            }}
+          />
+          {/* full-size downloads in the saved style, for print designers */}
+          <div style={{ display: "flex", gap: "8px" }}>
+            {(["png", "svg"] as const).map((format) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => downloadImage(format)}
+                style={{
+                  padding: 0,
+                  border: "none",
+                  background: "none",
+                  fontSize: "12px",
+                  color: "#2563eb",
+                  cursor: "pointer",
+                }}
+              >
+                {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+          {downloadError && (
+            <p role="alert" style={{ fontSize: "12px", color: "#dc2626" }}>
+              {downloadError}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <p style={{ fontSize: "14px", color: "#4b5563" }}>Scans</p>
+          <p style={{ fontSize: "28px", fontWeight: 600 }}>
+            {qrCode.scans ?? 0}
+          </p>
+          <Link
+            to={`/app/qrcodes/${qrCode.id}/analytics`}
+            style={{
+              fontSize: "13px",
+              color: "#2563eb",
+              textDecoration: "none",
+            }}
+          >
+            View analytics
+          </Link>
+        </div>
+      </section>
+
+      {/* shared form that posts back to this same route's action */}
+      <QRCodeForm
+        collections={collections}
+        hasLogo={hasLogo}
+        defaultValues={qrCode}
+        defaultFallbackVariant={fallbackVariant}
+        defaultCartLines={cartLines}
+        errors={actionData?.errors}
+        submitLabel="Save"
+        submittingLabel="Saving..."
+        isSubmitting={submittingIntent === "save"}
+      />
+
+      {/* delete is a separate form so it never submits the edit fields */}
+      <Form
+        method="post"
+        onSubmit={confirmDelete}
+        style={{
+          marginTop: "32px",
+          paddingTop: "16px",
+          borderTop: "1px solid #e5e7eb",
+        }}
+      >
+        <button
+          type="submit"
+          name="intent"
+          value="delete"
+          disabled={submittingIntent === "delete"}
+          style={{
+            padding: "8px 16px",
+            borderRadius: "6px",
+            border: "1px solid #dc2626",
+            backgroundColor: "white",
+            color: "#dc2626",
+            fontSize: "14px",
+            cursor: "pointer",
+          }}
+        >
+          {submittingIntent === "delete" ? "Deleting..." : "Delete QR code"}
+        </button>
+      </Form>
+    </main>
+  );
+}
+
+// this keeps Shopify’s special headers working for redirects and errors
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
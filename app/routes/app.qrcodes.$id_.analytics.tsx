@@ -0,0 +1,90 @@
+import type { LoaderFunctionArgs, HeadersFunction } from "react-router";
+import { useLoaderData, Link } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import { getQRCodeRecord } from "../models/QRCode.server";
+import { getScanAnalytics, getAnalyticsParams } from "../models/QRScan.server";
+import {
+  ScanAnalytics,
+  type ScanAnalyticsData,
+} from "../components/ScanAnalytics";
+
+type LoaderData = {
+  qrCode: { id: number; title: string };
+  analytics: ScanAnalyticsData;
+};
+
+// loader builds scan analytics for one QR code
+// (the "_" in the file name keeps this page out of the edit page's layout)
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const id = Number(params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Response("Invalid QR code id", { status: 400 });
+  }
+
+  // only the DB row is needed here, no product info
+  const qrCode = await getQRCodeRecord(id);
+
+  if (!qrCode || qrCode.shop !== session.shop) {
+    throw new Response("QR code not found", { status: 404 });
+  }
+
+  // ?days=7|30|90&interval=day|week
+  const { interval, days } = getAnalyticsParams(request);
+
+  const analytics = await getScanAnalytics(
+    session.shop,
+    qrCode.id,
+    interval,
+    days,
+  );
+
+  return {
+    qrCode: { id: qrCode.id, title: qrCode.title },
+    analytics,
+  } as LoaderData;
+}
+
+// main React component for /app/qrcodes/:id/analytics
+export default function QRCodeAnalyticsPage() {
+  const { qrCode, analytics } = useLoaderData() as LoaderData;
+
+  return (
+    <main
+      style={{
+        padding: "24px",
+        fontFamily:
+          "Poppins, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+        maxWidth: "800px",
+        margin: "0 auto",
+      }}
+    >
+      <header style={{ marginBottom: "20px" }}>
+        <Link
+          to={`/app/qrcodes/${qrCode.id}`}
+          style={{ fontSize: "14px", color: "#2563eb", textDecoration: "none" }}
+        >
+          ← Back to QR code
+        </Link>
+        <h1
+          style={{
+            fontSize: "24px",
+            fontWeight: 600,
+            marginTop: "8px",
+          }}
+        >
+          {qrCode.title || "(no title)"} · analytics
+        </h1>
+      </header>
+
+      <ScanAnalytics analytics={analytics} />
+    </main>
+  );
+}
+
+// this keeps Shopify’s special headers working for redirects and errors
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
@@ -0,0 +1,52 @@
+import type { LoaderFunctionArgs } from "react-router";
+
+import { authenticate } from "../shopify.server";
+import { getQRCodeRecord } from "../models/QRCode.server";
+import { getImageRequestOptions } from "../models/QRCodeImage.server";
+import {
+  getQRCodeImageVersion,
+  getCachedQRCodeImageFile,
+} from "../models/QRCodeImageCache.server";
+
+// loader returns the full-size PNG / SVG download of one QR code for the admin
+// (a resource route, the edit page fetches it and saves the blob)
+// the public /qrcodes/image only looks QRs up by shop + handle, so a guessed id
+// never gives away a QR's scan URL
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const id = Number(params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Response("Invalid QR code id", { status: 400 });
+  }
+
+  // only the DB row is needed to render the image
+  const qrCode = await getQRCodeRecord(id);
+
+  if (!qrCode || qrCode.shop !== session.shop) {
+    throw new Response("QR code not found", { status: 404 });
+  }
+
+  // format + style overrides (throws a 400 Response for bad values)
+  const url = new URL(request.url);
+  const { format, style } = getImageRequestOptions(url.searchParams);
+
+  // same in-process cache as the public route
+  const { key } = await getQRCodeImageVersion(qrCode, format, style);
+  const { body, contentType } = await getCachedQRCodeImageFile(
+    qrCode,
+    format,
+    style,
+    key,
+  );
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="qr-${qrCode.id}.${format}"`,
+      // the image encodes the scan URL, keep it out of shared caches
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,303 @@
+import type { ActionFunctionArgs, HeadersFunction } from "react-router";
+import {
+  useActionData,
+  useNavigation,
+  Form,
+  Link,
+  redirect,
+} from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "../shopify.server";
+import {
+  MAX_BULK_ROWS,
+  getCsvRows,
+  resolveBulkRows,
+  createQRCodesInBulk,
+} from "../models/QRCodeBulk.server";
+import { VariantListPicker } from "../components/VariantListPicker";
+
+// one line of the validation report
+type ReportRow = {
+  line: number; // CSV line, or position in the picked list
+  label: string; // the SKU / variant id the row was about
+  ok: boolean;
+  message: string; // the QR title on success, the problem otherwise
+};
+
+type ActionData = {
+  report: ReportRow[];
+};
+
+// the destinations a bulk row can use (they only need a variant)
+const BULK_DESTINATION_OPTIONS = [
+  { value: "checkout", label: "Checkout (reorder)" },
+  { value: "cart", label: "Cart" },
+  { value: "product", label: "Product page" },
+];
+
+// action builds rows from the picked variants or the CSV upload,
+// checks all of them, and only creates QR codes if every row is valid
+export async function action({ request }: ActionFunctionArgs) {
+  const { admin, session } = await authenticate.admin(request);
+
+  // multipart form data, "csv" is a File in CSV mode
+  const formData = await request.formData();
+  const defaultDestination = String(formData.get("destination") || "checkout");
+
+  let rows;
+  if (formData.get("intent") === "csv") {
+    const file = formData.get("csv");
+
+    if (!file || typeof file === "string" || file.size === 0) {
+      throw new Response("Choose a CSV file to upload.", { status: 400 });
+    }
+    rows = getCsvRows(await file.text());
+  } else {
+    const variantIds = formData.getAll("variantIds").map(String);
+
+    if (variantIds.length > MAX_BULK_ROWS) {
+      throw new Response(
+        `You can create at most ${MAX_BULK_ROWS} QR codes at once.`,
+        { status: 400 },
+      );
+    }
+    rows = variantIds.map((variantId, index) => ({
+      line: index + 1,
+      sku: "",
+      variantId,
+      title: "",
+      destination: "",
+    }));
+  }
+
+  if (rows.length === 0) {
+    throw new Response("Pick at least one variant or CSV row.", {
+      status: 400,
+    });
+  }
+
+  const { report, valid } = await resolveBulkRows(
+    admin.graphql,
+    rows,
+    defaultDestination,
+  );
+
+  // any bad row → nothing is created, the page shows what to fix
+  if (valid.length !== rows.length) {
+    const actionData: ActionData = { report };
+    return actionData;
+  }
+
+  await createQRCodesInBulk(session.shop, valid);
+
+  return redirect("/app");
+}
+
+const sectionStyle = {
+  border: "1px solid #e5e7eb",
+  borderRadius: "8px",
+  padding: "16px",
+  marginBottom: "24px",
+};
+
+const buttonStyle = {
+  padding: "8px 16px",
+  borderRadius: "6px",
+  border: "none",
+  backgroundColor: "#111827",
+  color: "white",
+  fontSize: "14px",
+  cursor: "pointer",
+};
+
+// small select shared by both forms, rows without a destination use it
+function DestinationSelect({ id }: { id: string }) {
+  return (
+    <div style={{ marginBottom: "16px" }}>
+      <label
+        htmlFor={id}
+        style={{ display: "block", fontSize: "14px", marginBottom: "4px" }}
+      >
+        Destination
+      </label>
+      <select
+        id={id}
+        name="destination"
+        defaultValue="checkout"
+        style={{
+          width: "100%",
+          padding: "8px 10px",
+          borderRadius: "6px",
+          border: "1px solid #d1d5db",
+          fontSize: "14px",
+        }}
+      >
+        {BULK_DESTINATION_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+// main React component for /app/qrcodes/bulk
+export default function BulkQRCodesPage() {
+  const actionData = useActionData() as ActionData | undefined;
+
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  const failed = actionData?.report.filter((row) => !row.ok) ?? [];
+
+  return (
+    <main
+      style={{
+        padding: "24px",
+        fontFamily:
+          "Poppins, system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+        maxWidth: "640px",
+        margin: "0 auto",
+      }}
+    >
+      <header style={{ marginBottom: "20px" }}>
+        <Link
+          to="/app"
+          style={{ fontSize: "14px", color: "#2563eb", textDecoration: "none" }}
+        >
+          ← All QR codes
+        </Link>
+        <h1
+          style={{
+            fontSize: "24px",
+            fontWeight: 600,
+            marginTop: "8px",
+            marginBottom: "4px",
+          }}
+        >
+          Bulk create QR codes
+        </h1>
+        <p style={{ fontSize: "14px", color: "#4b5563" }}>
+          Create one QR code per variant. Nothing is created until every row
+          checks out, so you can fix the list and try again.
+        </p>
+      </header>
+
+      {/* validation report from the last submit */}
+      {actionData && (
+        <section
+          style={{
+            ...sectionStyle,
+            borderColor: "#fca5a5",
+            backgroundColor: "#fef2f2",
+          }}
+        >
+          <p style={{ fontSize: "14px", fontWeight: 500, marginBottom: "8px" }}>
+            {failed.length} of {actionData.report.length} row
+            {actionData.report.length === 1 ? "" : "s"} need fixing. No QR codes
+            were created.
+          </p>
+          <table
+            style={{
+              width: "100%",
+              borderCollapse: "collapse",
+              fontSize: "13px",
+            }}
+          >
+            <thead>
+              <tr style={{ textAlign: "left" }}>
+                <th style={{ padding: "4px" }}>Row</th>
+                <th style={{ padding: "4px" }}>SKU / variant</th>
+                <th style={{ padding: "4px" }}>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {actionData.report.map((row) => (
+                <tr key={row.line} style={{ borderTop: "1px solid #fecaca" }}>
+                  <td style={{ padding: "4px" }}>{row.line}</td>
+                  <td style={{ padding: "4px", wordBreak: "break-all" }}>
+                    {row.label}
+                  </td>
+                  <td
+                    style={{
+                      padding: "4px",
+                      color: row.ok ? "#15803d" : "#dc2626",
+                    }}
+                  >
+                    {row.ok ? `✓ ${row.message}` : row.message}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {/* mode 1: pick variants with the resource picker */}
+      <section style={sectionStyle}>
+        <h2 style={{ fontSize: "18px", fontWeight: 600, marginBottom: "12px" }}>
+          Pick variants
+        </h2>
+        <Form method="post">
+          <div style={{ marginBottom: "16px" }}>
+            <VariantListPicker name="variantIds" label="Variants" />
+          </div>
+
+          <DestinationSelect id="select-destination" />
+
+          <button
+            type="submit"
+            name="intent"
+            value="select"
+            disabled={isSubmitting}
+            style={buttonStyle}
+          >
+            {isSubmitting ? "Creating..." : "Create QR codes"}
+          </button>
+        </Form>
+      </section>
+
+      {/* mode 2: CSV upload, multipart so the file is sent */}
+      <section style={sectionStyle}>
+        <h2 style={{ fontSize: "18px", fontWeight: 600, marginBottom: "4px" }}>
+          Upload a CSV
+        </h2>
+        <p style={{ fontSize: "13px", color: "#6b7280", marginBottom: "12px" }}>
+          First row is the header. Columns: <code>sku</code> or{" "}
+          <code>variant_id</code>, and optionally <code>title</code> and{" "}
+          <code>destination</code> (checkout, cart or product). Up to{" "}
+          {MAX_BULK_ROWS} rows.
+        </p>
+        <Form method="post" encType="multipart/form-data">
+          <div style={{ marginBottom: "16px" }}>
+            <input
+              name="csv"
+              type="file"
+              required
+              accept=".csv,text/csv"
+              style={{ fontSize: "14px" }}
+            />
+          </div>
+
+          <DestinationSelect id="csv-destination" />
+
+          <button
+            type="submit"
+            name="intent"
+            value="csv"
+            disabled={isSubmitting}
+            style={buttonStyle}
+          >
+            {isSubmitting ? "Checking..." : "Upload and create"}
+          </button>
+        </Form>
+      </section>
+    </main>
+  );
+}
+
+// this keeps Shopify’s special headers working for redirects and errors
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
@@ -3,87 +3,56 @@ import type {
   ActionFunctionArgs,
   HeadersFunction,
 } from "react-router";
-import { useLoaderData, Form, useNavigation, redirect } from "react-router";
+import {
+  useLoaderData,
+  useActionData,
+  useNavigation,
+  redirect,
+  data,
+} from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 
 import { authenticate } from "../shopify.server";
-import db from "../db.server";
+import { getCollectionOptions, createQRCode } from "../models/QRCode.server";
+import {
+  QRCodeForm,
+  type CollectionOption,
+  type QRCodeFormErrors,
+} from "../components/QRCodeForm";
+import { hasShopLogo } from "../models/ShopBranding.server";
+import { validateQRCodeForm } from "../models/QRCodeValidation.server";
 
 // --------------------
 // types for loader data
 // --------------------
 
-// this is a simple shape we will pass from the loader to the React UI
-type VariantOption = {
-  id: string; // GraphQL id of the variant
-  title: string; // variant title, e.g. "250ml"
-};
-
-type ProductOption = {
-  id: string; // GraphQL id of the product
-  title: string; // product name
-  handle: string; // product handle used in URL
-  variants: VariantOption[]; // list of variants for this product
+type LoaderData = {
+  collections: CollectionOption[]; // for the "collection" destination
+  hasLogo: boolean; // enables the "show shop logo" checkbox
 };
 
-type LoaderData = {
-  products: ProductOption[]; // list of products with variants
+// field-level messages when the form didn't validate
+type ActionData = {
+  errors: QRCodeFormErrors;
 };
 
 // --------------------
 // loader: runs on server
 // --------------------
 
-// this loader fetches products + variants from the Admin API
+// this loader fetches the collections + logo state for the form
+// (variants are picked with the App Bridge resource picker, nothing to preload)
 export async function loader({ request }: LoaderFunctionArgs) {
   // authenticate the admin request so we can call Admin GraphQL
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
 
-  // simple GraphQL query to get first 20 products and their variants
-  const response = await admin.graphql(
-    `
-      query ReorderProductsForQR {
-        products(first: 20) {
-          edges {
-            node {
-              id
-              title
-              handle
-              variants(first: 10) {
-                edges {
-                  node {
-                    id
-                    title
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
-    `,
+  const collections: CollectionOption[] = await getCollectionOptions(
+    admin.graphql,
   );
-
-  const { data } = await response.json();
-
-  // we gently map the raw GraphQL data into our ProductOption[] shape
-  const products: ProductOption[] =
-    data?.products?.edges?.map((edge: any) => {
-      const node = edge.node;
-      return {
-        id: node.id,
-        title: node.title,
-        handle: node.handle,
-        variants:
-          node.variants?.edges?.map((vEdge: any) => ({
-            id: vEdge.node.id,
-            title: vEdge.node.title,
-          })) ?? [],
-      };
-    }) ?? [];
+  const hasLogo = await hasShopLogo(session.shop);
 
   // pass this clean list to the React component
-  const loaderData: LoaderData = { products };
+  const loaderData: LoaderData = { collections, hasLogo };
   return loaderData;
 }
 
@@ -93,38 +62,34 @@ export async function loader({ request }: LoaderFunctionArgs) {
 
 // this action creates a QRCode row for the selected product + variant
 export async function action({ request }: ActionFunctionArgs) {
-  const formData = await request.formData();
+  // we need the shop domain for this QR row (and GraphQL to check custom URLs)
+  const { admin, session } = await authenticate.admin(request);
+  const shop = session.shop;
 
-  // title for the QR code (shown in admin list)
-  const title = String(formData.get("title") || "").trim();
+  const formData = await request.formData();
 
-  // this field will contain "productId|variantId|productHandle"
-  const selection = formData.get("productVariant") as string | null;
+  // title, product/variant and destination from the shared form
+  const { fields, errors } = await validateQRCodeForm(formData, admin.graphql);
 
-  if (!selection) {
-    // very basic guard for missing selection
-    throw new Response("Please select a product variant.", { status: 400 });
+  // invalid fields are shown next to the inputs, the typed values stay in the form
+  if (errors) {
+    const actionData: ActionData = { errors };
+    return data(actionData, { status: 400 });
   }
 
-  const [productId, productVariantId, productHandle] = selection.split("|");
-
-  // we also need the shop domain for this QR row
-  const { session } = await authenticate.admin(request);
-  const shop = session.shop;
-
-  // create a new QRCode row in the database
-  // destination is set to "checkout" because this app is for reorders
-  await db.qRCode.create({
-    data: {
-      title: title || "QR reorder", // fallback title if empty
-      shop,
-      productId,
-      productHandle,
-      productVariantId,
-      destination: "checkout",
-      // scans defaults to 0 and createdAt defaults to now() from Prisma
-    },
-  });
+  // create a new QRCode row (and its cart lines) in the database
+  try {
+    await createQRCode(shop, fields);
+  } catch (error) {
+    // the branded-QR scan check can only run while saving, it's about the logo
+    if (error instanceof Response && error.status === 400) {
+      const actionData: ActionData = {
+        errors: { showLogo: await error.text() },
+      };
+      return data(actionData, { status: 400 });
+    }
+    throw error;
+  }
 
   // after creating, go back to the main /app list page
   return redirect("/app");
@@ -136,8 +101,9 @@ export async function action({ request }: ActionFunctionArgs) {
 
 // this is the main React UI for /app/qrcodes/new
 export default function NewQRCodePage() {
-  // read products from the loader
-  const { products } = useLoaderData() as LoaderData;
+  // read collections + logo state from the loader
+  const { collections, hasLogo } = useLoaderData() as LoaderData;
+  const actionData = useActionData() as ActionData | undefined;
 
   // this helps us show "Saving..." state on the button
   const navigation = useNavigation();
@@ -174,111 +140,21 @@ export default function NewQRCodePage() {
             color: "#4b5563",
           }}
         >
-          Pick a product variant. This QR will send customers straight to
-          checkout with that item already in their cart (good for reorders from
-          the package).
+          Pick a product variant. By default this QR will send customers
+          straight to checkout with that item already in their cart (good for
+          reorders from the package). Add more cart lines for bundles.
         </p>
       </header>
 
-      {/* form that posts back to this same route's action */}
-      <Form method="post">
-        {/* title input for the QR row */}
-        <div style={{ marginBottom: "16px" }}>
-          <label
-            htmlFor="title"
-            style={{ display: "block", fontSize: "14px", marginBottom: "4px" }}
-          >
-            QR title
-          </label>
-          <input
-            id="title"
-            name="title"
-            type="text"
-            placeholder="Shampoo 250ml reorder"
-            style={{
-              width: "100%",
-              padding: "8px 10px",
-              borderRadius: "6px",
-              border: "1px solid #d1d5db",
-              fontSize: "14px",
-            }}
-          />
-          <p
-            style={{
-              fontSize: "12px",
-              color: "#6b7280",
-              marginTop: "4px",
-            }}
-          >
-            This name only appears in the admin list, to help you recognize the
-            QR later.
-          </p>
-        </div>
-
-        {/* product + variant select */}
-        <div style={{ marginBottom: "20px" }}>
-          <label
-            htmlFor="productVariant"
-            style={{ display: "block", fontSize: "14px", marginBottom: "4px" }}
-          >
-            Product and variant
-          </label>
-          <select
-            id="productVariant"
-            name="productVariant"
-            required
-            style={{
-              width: "100%",
-              padding: "8px 10px",
-              borderRadius: "6px",
-              border: "1px solid #d1d5db",
-              fontSize: "14px",
-            }}
-          >
-            <option value="">Select a product variant</option>
-
-            {/* here we flatten products + variants into one list */}
-            {products.map((product) =>
-              product.variants.map((variant) => (
-                <option
-                  key={variant.id}
-                  // we pack productId | variantId | handle into one field
-                  value={`${product.id}|${variant.id}|${product.handle}`}
-                >
-                  {product.title} — {variant.title}
-                </option>
-              )),
-            )}
-          </select>
-          <p
-            style={{
-              fontSize: "12px",
-              color: "#6b7280",
-              marginTop: "4px",
-            }}
-          >
-            The QR will always send customers to checkout with this exact
-            variant in the cart.
-          </p>
-        </div>
-
-        {/* submit button */}
-        <button
-          type="submit"
-          disabled={isSubmitting}
-          style={{
-            padding: "8px 16px",
-            borderRadius: "6px",
-            border: "none",
-            backgroundColor: "#111827",
-            color: "white",
-            fontSize: "14px",
-            cursor: isSubmitting ? "default" : "pointer",
-          }}
-        >
-          {isSubmitting ? "Creating..." : "Create QR code"}
-        </button>
-      </Form>
+      {/* shared form that posts back to this same route's action */}
+      <QRCodeForm
+        collections={collections}
+        hasLogo={hasLogo}
+        errors={actionData?.errors}
+        submitLabel="Create QR code"
+        submittingLabel="Creating..."
+        isSubmitting={isSubmitting}
+      />
     </main>
   );
 }
@@ -28,6 +28,10 @@ export default function App() {
     <AppProvider embedded apiKey={apiKey}>
       <s-app-nav>
         <s-link href="/app">Home</s-link>
+        <s-link href="/app/analytics">Analytics</s-link>
+        <s-link href="/app/branding">Branding</s-link>
+        <s-link href="/app/discounts">Volume discounts</s-link>
+        <s-link href="/app/product-discounts">Product discounts</s-link>
         <s-link href="/app/additional">Additional page</s-link>
       </s-app-nav>
       <Outlet />
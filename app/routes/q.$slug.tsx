@@ -0,0 +1,46 @@
+import type { LoaderFunctionArgs, HeadersFunction } from "react-router";
+import { redirect } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import {
+  getQRCodeRecordBySlug,
+  getDestinationUrl,
+  recordScan,
+} from "../models/QRCode.server";
+import { checkRateLimit } from "../models/RateLimit.server";
+
+// loader runs when a customer scans the QR and hits /q/:slug
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  // the random slug from the URL, see createQRCodeSlug
+  const slug = params.slug;
+
+  // basic guard for missing slugs
+  if (!slug) {
+    throw new Response("Missing QR code", { status: 400 });
+  }
+
+  // throws a 429 before we touch the database if this client scans too often
+  await checkRateLimit(request, "scan", slug);
+
+  // get the raw QR row from the database
+  const qrCode = await getQRCodeRecordBySlug(slug);
+
+  // if no row is found, show a 404 style response
+  if (!qrCode) {
+    throw new Response("QR code not found", { status: 404 });
+  }
+
+  // figure out where this QR should send the customer (checkout URL)
+  const destination = getDestinationUrl(qrCode);
+
+  // log the scan (time, device, country) and bump the cached "scans" counter
+  // (bots + repeat scans still get redirected, they just aren't counted)
+  await recordScan(qrCode, request);
+
+  // finally send the customer to the shop's checkout/cart URL
+  return redirect(destination);
+}
+
+// keep Shopify's special headers working (same pattern as /app route)
+export const headers: HeadersFunction = (headersArgs) =>
+  boundary.headers(headersArgs);
@@ -2,14 +2,12 @@ import type { LoaderFunctionArgs, HeadersFunction } from "react-router";
 import { redirect } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 
-import {
-  getQRCodeRecord,
-  getDestinationUrl,
-  recordScan,
-} from "../models/QRCode.server";
-
-// loader runs when a customer scans the QR and hits /qrcodes/:id/scan
-export async function loader({ params }: LoaderFunctionArgs) {
+import { getQRCodeRecord, getScanUrl } from "../models/QRCode.server";
+import { checkRateLimit } from "../models/RateLimit.server";
+
+// loader runs when a customer scans a QR printed before slugs existed
+// (/qrcodes/:id/scan), it forwards to the QR's /q/:slug URL which logs the scan
+export async function loader({ request, params }: LoaderFunctionArgs) {
   // read the id from the URL /qrcodes/:id/scan
   const idParam = params.id;
 
@@ -20,25 +18,23 @@ export async function loader({ params }: LoaderFunctionArgs) {
 
   // convert the id string to a number (because Prisma uses Int id)
   const id = Number(idParam);
-  if (Number.isNaN(id)) {
+  if (!Number.isInteger(id) || id <= 0) {
     throw new Response("Invalid QR code id", { status: 400 });
   }
+  // shares the scan budget with /q/:slug, counting through ids runs out fast
+  await checkRateLimit(request, "scan", id);
+
   // get the raw QR row from the database
   const qrCode = await getQRCodeRecord(id);
 
-  // if no row is found, show a 404 style response
-  if (!qrCode) {
+  // QRs created since slugs were added never had a numeric URL,
+  // so counting through ids doesn't reach them
+  if (!qrCode || !qrCode.legacyScanUrl) {
     throw new Response("QR code not found", { status: 404 });
   }
 
-  // figure out where this QR should send the customer (checkout URL)
-  const destination = getDestinationUrl(qrCode);
-
-  // bump the scan counter so the admin list can show "scans"
-  await recordScan(qrCode);
-
-  // finally send the customer to the shop's checkout/cart URL
-  return redirect(destination);
+  // permanent, the printed code will always mean this QR
+  return redirect(getScanUrl(qrCode.slug), 301);
 }
 
 // keep Shopify's special headers working (same pattern as /app route)
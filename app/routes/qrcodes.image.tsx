@@ -1,41 +1,75 @@
 import type { LoaderFunctionArgs } from "react-router";
-import { Buffer } from "node:buffer";
-import { getQRCodeForProduct, getQRCodeImage } from "../models/QRCode.server";
+import { getQRCodeForProduct } from "../models/QRCode.server";
+import { getPublicImageRequestOptions } from "../models/QRCodeImage.server";
+import { checkRateLimit } from "../models/RateLimit.server";
+import {
+  getQRCodeImageVersion,
+  getCachedQRCodeImageFile,
+  matchesETag,
+} from "../models/QRCodeImageCache.server";
 
-// loader returns a PNG image for a given shop + product handle
+// browsers + CDNs reuse an image for 5 minutes, then revalidate with the ETag
+// (not longer, because editing the QR's style or logo changes the image)
+const IMAGE_CACHE_CONTROL = "public, max-age=300";
+
+// loader returns the latest QR image of a product (PNG by default, or SVG)
+// for the theme block, which sends ?shop=&handle=
+// optional params: format=png|svg and size (one of PUBLIC_IMAGE_SIZES), the rest
+// of the style is the QR's saved preset so strangers can't force fresh renders
+// (there is no ?id= here: anyone could count through ids and decode every
+// QR's scan URL, admin downloads go through /app/qrcodes/:id/image instead)
 export async function loader({ request }: LoaderFunctionArgs) {
   const url = new URL(request.url);
 
-  // we expect shop + handle as query params from the theme block
   const shop = url.searchParams.get("shop");
   const handle = url.searchParams.get("handle");
 
   // basic guards for missing params
   if (!shop || !handle) {
-    return new Response("Missing shop or handle", { status: 400 });
+    return new Response("Missing shop and handle", { status: 400 });
   }
 
+  // every image is rendered from scratch, so throws a 429 for clients asking too often
+  await checkRateLimit(request, "image", `${shop}/${handle}`);
+
+  // format + size (throws a 400 Response for bad values or style overrides)
+  const { format, style } = getPublicImageRequestOptions(url.searchParams);
+
   // find the latest QR code row for this product in this shop
   const qrCode = await getQRCodeForProduct(shop, handle);
 
   // if no QR exists yet, we return 404
   if (!qrCode) {
-    return new Response("No QR code found for this product", { status: 404 });
+    return new Response("No QR code found", { status: 404 });
   }
 
-  // this helper creates a data URL for the scan URL (/qrcodes/:id/scan)
-  const dataUrl = await getQRCodeImage(qrCode.id);
-  // dataUrl looks like: "data:image/png;base64,AAA..."
-  const [, base64] = dataUrl.split(",");
+  // the ETag only needs the row, so an unchanged image is never re-rendered
+  const { key, etag } = await getQRCodeImageVersion(qrCode, format, style);
+  const cacheHeaders = {
+    ETag: etag,
+    "Cache-Control": IMAGE_CACHE_CONTROL,
+  };
+
+  if (matchesETag(request.headers.get("If-None-Match"), etag)) {
+    return new Response(null, { status: 304, headers: cacheHeaders });
+  }
 
-  // convert base64 string into raw PNG bytes
-  const pngBuffer = Buffer.from(base64, "base64");
+  // PNG bytes or SVG markup for the scan URL (/q/:slug),
+  // using the QR's saved style, resized if ?size= asked for it
+  // (rendered once, then served from the in-process cache)
+  const { body, contentType } = await getCachedQRCodeImageFile(
+    qrCode,
+    format,
+    style,
+    key,
+  );
 
-  // return an actual PNG image that <img src="..."> can display
-  return new Response(pngBuffer, {
+  // return an actual image that <img src="..."> can display
+  return new Response(body, {
     status: 200,
     headers: {
-      "Content-Type": "image/png",
+      "Content-Type": contentType,
+      ...cacheHeaders,
     },
   });
 }
@@ -0,0 +1,14 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { markProductDeleted } from "../models/ProductCache.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // flag the QRs so scans go to their fallback (the payload only has the numeric id)
+  await markProductDeleted(shop, payload.id);
+
+  return new Response();
+};
@@ -0,0 +1,14 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { updateProductCache } from "../models/ProductCache.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // copy the new title / handle / image / variant prices onto the shop's QR rows
+  await updateProductCache(shop, payload);
+
+  return new Response();
+};
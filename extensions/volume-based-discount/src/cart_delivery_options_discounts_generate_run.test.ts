@@ -19,6 +19,11 @@ describe("cartDeliveryOptionsDiscountsGenerateRun", () => {
     },
     discount: {
       discountClasses: [],
+      metafield: {
+        jsonValue: {
+          delivery: {percentage: 100},
+        },
+      },
     },
   };
 
@@ -26,6 +31,7 @@ describe("cartDeliveryOptionsDiscountsGenerateRun", () => {
     const input: DeliveryInput = {
       ...baseInput,
       discount: {
+        ...baseInput.discount,
         discountClasses: [],
       },
     };
@@ -39,6 +45,7 @@ describe("cartDeliveryOptionsDiscountsGenerateRun", () => {
     const input: DeliveryInput = {
       ...baseInput,
       discount: {
+        ...baseInput.discount,
         discountClasses: [DiscountClass.Shipping],
       },
     };
@@ -70,12 +77,56 @@ describe("cartDeliveryOptionsDiscountsGenerateRun", () => {
     });
   });
 
+  it("uses the configured percentage and message", () => {
+    const input: DeliveryInput = {
+      ...baseInput,
+      discount: {
+        discountClasses: [DiscountClass.Shipping],
+        metafield: {
+          jsonValue: {
+            delivery: {percentage: 50, message: "HALF PRICE SHIPPING"},
+          },
+        },
+      },
+    };
+
+    const result = cartDeliveryOptionsDiscountsGenerateRun(input);
+    expect(result.operations[0]).toMatchObject({
+      deliveryDiscountsAdd: {
+        candidates: [
+          {
+            message: "HALF PRICE SHIPPING",
+            value: {percentage: {value: 50}},
+          },
+        ],
+      },
+    });
+  });
+
+  it.each([
+    ["missing", null],
+    ["without a delivery discount", {jsonValue: {tiers: []}}],
+    ["malformed", {jsonValue: {delivery: {percentage: "100"}}}],
+  ])("returns empty operations when the configuration is %s", (_, metafield) => {
+    const input: DeliveryInput = {
+      ...baseInput,
+      discount: {
+        discountClasses: [DiscountClass.Shipping],
+        metafield,
+      },
+    };
+
+    const result = cartDeliveryOptionsDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(0);
+  });
+
   it("throws error when no delivery groups are present", () => {
     const input: DeliveryInput = {
       cart: {
         deliveryGroups: [],
       },
       discount: {
+        ...baseInput.discount,
         discountClasses: [DiscountClass.Shipping],
       },
     };
@@ -4,6 +4,7 @@ import {
   DeliveryInput,
   CartDeliveryOptionsDiscountsGenerateRunResult,
 } from "../generated/api";
+import {parseDiscountConfig} from "./discount_config";
 
 export function cartDeliveryOptionsDiscountsGenerateRun(
   input: DeliveryInput,
@@ -21,13 +22,22 @@ export function cartDeliveryOptionsDiscountsGenerateRun(
     return {operations: []};
   }
 
+  // a missing or malformed configuration gives no discount at all
+  const delivery = parseDiscountConfig(
+    input.discount.metafield?.jsonValue,
+  )?.delivery;
+
+  if (!delivery) {
+    return {operations: []};
+  }
+
   return {
     operations: [
       {
         deliveryDiscountsAdd: {
           candidates: [
             {
-              message: "FREE DELIVERY",
+              message: delivery.message,
               targets: [
                 {
                   deliveryGroup: {
@@ -37,7 +47,7 @@ export function cartDeliveryOptionsDiscountsGenerateRun(
               ],
               value: {
                 percentage: {
-                  value: 100,
+                  value: delivery.percentage,
                 },
               },
             },
@@ -2,170 +2,304 @@ import {describe, it, expect} from "vitest";
 
 import {cartLinesDiscountsGenerateRun} from "./cart_lines_discounts_generate_run";
 import {
-  OrderDiscountSelectionStrategy,
   ProductDiscountSelectionStrategy,
   DiscountClass,
   CartInput,
   CartLinesDiscountsGenerateRunResult,
 } from "../generated/api";
 
-describe("cartLinesDiscountsGenerateRun", () => {
-  const baseInput: CartInput = {
-    cart: {
-      lines: [
-        {
-          id: "gid://shopify/CartLine/0",
-          cost: {
-            subtotalAmount: {
-              amount: 100,
-            },
-          },
-        },
-      ],
+type CartLine = CartInput["cart"]["lines"][number];
+
+function productLine(
+  id: number,
+  productId: number,
+  quantity: number,
+  {inAnyCollection = false, hasAnyTag = false} = {},
+): CartLine {
+  return {
+    id: `gid://shopify/CartLine/${id}`,
+    quantity,
+    cost: {
+      subtotalAmount: {
+        amount: 10 * quantity,
+      },
     },
-    discount: {
-      discountClasses: [],
+    merchandise: {
+      __typename: "ProductVariant",
+      id: `gid://shopify/ProductVariant/${id}`,
+      product: {
+        id: `gid://shopify/Product/${productId}`,
+        inAnyCollection,
+        hasAnyTag,
+      },
     },
   };
+}
 
-  it("returns empty operations when no discount classes are present", () => {
-    const input: CartInput = {
-      ...baseInput,
+describe("cartLinesDiscountsGenerateRun", () => {
+  const tiers = [
+    {minQuantity: 3, percentage: 5},
+    {minQuantity: 6, percentage: 10},
+    {minQuantity: 12, percentage: 15},
+  ];
+
+  function cartInput(lines: CartLine[], config: unknown = {tiers}): CartInput {
+    return {
+      cart: {
+        lines,
+      },
       discount: {
-        discountClasses: [],
+        discountClasses: [DiscountClass.Product],
+        metafield: config === null ? null : {jsonValue: config},
       },
     };
+  }
 
-    const result: CartLinesDiscountsGenerateRunResult =
-      cartLinesDiscountsGenerateRun(input);
-    expect(result.operations).toHaveLength(0);
-  });
-
-  it("returns only order discount when only order discount class is present", () => {
+  it("returns empty operations when the product discount class is missing", () => {
     const input: CartInput = {
-      ...baseInput,
+      ...cartInput([productLine(0, 1, 12)]),
       discount: {
         discountClasses: [DiscountClass.Order],
+        metafield: {jsonValue: {tiers}},
       },
     };
 
     const result: CartLinesDiscountsGenerateRunResult =
       cartLinesDiscountsGenerateRun(input);
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("returns empty operations when the discount has no tier configuration", () => {
+    const result = cartLinesDiscountsGenerateRun(
+      cartInput([productLine(0, 1, 12)], null),
+    );
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("returns empty operations when the tier configuration is malformed", () => {
+    const result = cartLinesDiscountsGenerateRun(
+      cartInput([productLine(0, 1, 12)], {
+        tiers: [...tiers, {minQuantity: 20, percentage: 150}],
+      }),
+    );
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("returns empty operations below the lowest tier", () => {
+    const result = cartLinesDiscountsGenerateRun(
+      cartInput([productLine(0, 1, 2)]),
+    );
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it.each([
+    [3, 5],
+    [5, 5],
+    [6, 10],
+    [11, 10],
+    [12, 15],
+    [40, 15],
+  ])("gives %i items of one product %i%% off", (quantity, percentage) => {
+    const result = cartLinesDiscountsGenerateRun(
+      cartInput([productLine(0, 1, quantity)]),
+    );
+
     expect(result.operations).toHaveLength(1);
     expect(result.operations[0]).toMatchObject({
-      orderDiscountsAdd: {
+      productDiscountsAdd: {
         candidates: [
           {
-            message: "10% OFF ORDER",
-            targets: [
-              {
-                orderSubtotal: {
-                  excludedCartLineIds: [],
-                },
-              },
-            ],
+            targets: [{cartLine: {id: "gid://shopify/CartLine/0"}}],
             value: {
               percentage: {
-                value: 10,
+                value: percentage,
               },
             },
           },
         ],
-        selectionStrategy: OrderDiscountSelectionStrategy.First,
+        selectionStrategy: ProductDiscountSelectionStrategy.All,
       },
     });
   });
 
-  it("returns only product discount when only product discount class is present", () => {
-    const input: CartInput = {
-      ...baseInput,
-      discount: {
-        discountClasses: [DiscountClass.Product],
+  it("uses the tier's own message when it has one", () => {
+    const result = cartLinesDiscountsGenerateRun(
+      cartInput([productLine(0, 1, 3)], {
+        tiers: [{minQuantity: 3, percentage: 5, message: "Multipack deal"}],
+      }),
+    );
+
+    expect(result.operations[0]).toMatchObject({
+      productDiscountsAdd: {
+        candidates: [{message: "Multipack deal"}],
       },
-    };
+    });
+  });
+
+  it("adds up the quantities of different variants of the same product", () => {
+    const result = cartLinesDiscountsGenerateRun(
+      cartInput([productLine(0, 1, 2), productLine(1, 1, 4)]),
+    );
 
-    const result: CartLinesDiscountsGenerateRunResult =
-      cartLinesDiscountsGenerateRun(input);
-    expect(result.operations).toHaveLength(1);
     expect(result.operations[0]).toMatchObject({
       productDiscountsAdd: {
         candidates: [
           {
-            message: "20% OFF PRODUCT",
+            message: "BUY 6+, SAVE 10%",
             targets: [
-              {
-                cartLine: {
-                  id: "gid://shopify/CartLine/0",
-                },
-              },
+              {cartLine: {id: "gid://shopify/CartLine/0"}},
+              {cartLine: {id: "gid://shopify/CartLine/1"}},
             ],
-            value: {
-              percentage: {
-                value: 20,
-              },
-            },
+            value: {percentage: {value: 10}},
           },
         ],
-        selectionStrategy: ProductDiscountSelectionStrategy.First,
       },
     });
   });
 
-  it("returns both discounts when both discount classes are present", () => {
-    const input: CartInput = {
-      ...baseInput,
-      discount: {
-        discountClasses: [DiscountClass.Order, DiscountClass.Product],
+  it("counts each product on its own", () => {
+    const result = cartLinesDiscountsGenerateRun(
+      cartInput([
+        productLine(0, 1, 3),
+        productLine(1, 2, 12),
+        productLine(2, 3, 1),
+      ]),
+    );
+
+    expect(result.operations[0]).toMatchObject({
+      productDiscountsAdd: {
+        candidates: [
+          {
+            targets: [{cartLine: {id: "gid://shopify/CartLine/0"}}],
+            value: {percentage: {value: 5}},
+          },
+          {
+            targets: [{cartLine: {id: "gid://shopify/CartLine/1"}}],
+            value: {percentage: {value: 15}},
+          },
+        ],
       },
-    };
+    });
+  });
+
+  it("gives products with their own percentage exactly that, at any quantity", () => {
+    const result = cartLinesDiscountsGenerateRun(
+      cartInput([productLine(0, 1, 1), productLine(1, 2, 6)], {
+        tiers,
+        products: [
+          {
+            productId: "gid://shopify/Product/1",
+            percentage: 20,
+            message: "Launch offer",
+          },
+          {productId: "gid://shopify/Product/2", percentage: 25},
+        ],
+      }),
+    );
 
-    const result: CartLinesDiscountsGenerateRunResult =
-      cartLinesDiscountsGenerateRun(input);
-    expect(result.operations).toHaveLength(2);
     expect(result.operations[0]).toMatchObject({
-      orderDiscountsAdd: {
+      productDiscountsAdd: {
         candidates: [
           {
-            message: "10% OFF ORDER",
-            targets: [
-              {
-                orderSubtotal: {
-                  excludedCartLineIds: [],
-                },
-              },
-            ],
-            value: {
-              percentage: {
-                value: 10,
-              },
-            },
+            message: "Launch offer",
+            targets: [{cartLine: {id: "gid://shopify/CartLine/0"}}],
+            value: {percentage: {value: 20}},
+          },
+          {
+            message: "25% OFF",
+            targets: [{cartLine: {id: "gid://shopify/CartLine/1"}}],
+            value: {percentage: {value: 25}},
           },
         ],
-        selectionStrategy: OrderDiscountSelectionStrategy.First,
       },
     });
+  });
 
-    expect(result.operations[1]).toMatchObject({
+  it("applies per-product percentages without any tiers", () => {
+    const result = cartLinesDiscountsGenerateRun(
+      cartInput([productLine(0, 1, 1), productLine(1, 2, 12)], {
+        products: [{productId: "gid://shopify/Product/1", percentage: 10}],
+      }),
+    );
+
+    expect(result.operations).toHaveLength(1);
+    expect(result.operations[0]).toMatchObject({
       productDiscountsAdd: {
         candidates: [
           {
-            message: "20% OFF PRODUCT",
-            targets: [
-              {
-                cartLine: {
-                  id: "gid://shopify/CartLine/0",
-                },
-              },
-            ],
-            value: {
-              percentage: {
-                value: 20,
-              },
-            },
+            targets: [{cartLine: {id: "gid://shopify/CartLine/0"}}],
+            value: {percentage: {value: 10}},
           },
         ],
-        selectionStrategy: ProductDiscountSelectionStrategy.First,
       },
     });
   });
-});
\ No newline at end of file
+
+  it("only applies the tiers to products in a configured collection or with a configured tag", () => {
+    const result = cartLinesDiscountsGenerateRun(
+      cartInput(
+        [
+          productLine(0, 1, 6, {inAnyCollection: true}),
+          productLine(1, 2, 6, {hasAnyTag: true}),
+          productLine(2, 3, 6),
+        ],
+        {
+          tiers,
+          collectionIds: ["gid://shopify/Collection/1"],
+          tags: ["bulk"],
+        },
+      ),
+    );
+
+    expect(result.operations[0]).toMatchObject({
+      productDiscountsAdd: {
+        candidates: [
+          {targets: [{cartLine: {id: "gid://shopify/CartLine/0"}}]},
+          {targets: [{cartLine: {id: "gid://shopify/CartLine/1"}}]},
+        ],
+      },
+    });
+    expect(result.operations[0].productDiscountsAdd?.candidates).toHaveLength(2);
+  });
+
+  it("returns empty operations when no product matches the targeting", () => {
+    const result = cartLinesDiscountsGenerateRun(
+      cartInput([productLine(0, 1, 12)], {tiers, tags: ["bulk"]}),
+    );
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("keeps per-product percentages outside the targeted collections", () => {
+    const result = cartLinesDiscountsGenerateRun(
+      cartInput([productLine(0, 1, 1)], {
+        tiers,
+        collectionIds: ["gid://shopify/Collection/1"],
+        products: [{productId: "gid://shopify/Product/1", percentage: 20}],
+      }),
+    );
+
+    expect(result.operations[0]).toMatchObject({
+      productDiscountsAdd: {
+        candidates: [{value: {percentage: {value: 20}}}],
+      },
+    });
+  });
+
+  it("skips custom product lines", () => {
+    const result = cartLinesDiscountsGenerateRun(
+      cartInput([
+        {
+          ...productLine(0, 1, 12),
+          merchandise: {__typename: "CustomProduct"},
+        },
+      ]),
+    );
+    expect(result.operations).toHaveLength(0);
+  });
+
+  it("throws error when no cart lines are present", () => {
+    expect(() => cartLinesDiscountsGenerateRun(cartInput([]))).toThrow(
+      "No cart lines found",
+    );
+  });
+});
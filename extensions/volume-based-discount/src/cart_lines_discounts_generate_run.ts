@@ -1,11 +1,11 @@
 import {
   DiscountClass,
-  OrderDiscountSelectionStrategy,
   ProductDiscountSelectionStrategy,
   CartInput,
   CartLinesDiscountsGenerateRunResult,
+  ProductDiscountCandidate,
 } from '../generated/api';
-
+import {parseDiscountConfig} from './discount_config';
 
 export function cartLinesDiscountsGenerateRun(
   input: CartInput,
@@ -14,77 +14,94 @@ export function cartLinesDiscountsGenerateRun(
     throw new Error('No cart lines found');
   }
 
-  const hasOrderDiscountClass = input.discount.discountClasses.includes(
-    DiscountClass.Order,
-  );
   const hasProductDiscountClass = input.discount.discountClasses.includes(
     DiscountClass.Product,
   );
 
-  if (!hasOrderDiscountClass && !hasProductDiscountClass) {
+  if (!hasProductDiscountClass) {
     return {operations: []};
   }
 
-  const maxCartLine = input.cart.lines.reduce((maxLine, line) => {
-    if (line.cost.subtotalAmount.amount > maxLine.cost.subtotalAmount.amount) {
-      return line;
+  // a missing or malformed configuration gives no discount at all
+  const config = parseDiscountConfig(input.discount.metafield?.jsonValue);
+
+  if (!config || (!config.tiers.length && !config.products.length)) {
+    return {operations: []};
+  }
+
+  const productPercentages = new Map(
+    config.products.map((product) => [product.productId, product]),
+  );
+
+  // with no collections or tags configured the tiers apply to every product
+  const isTargeted = config.collectionIds.length > 0 || config.tags.length > 0;
+
+  // quantities are counted per product, so two sizes of the same shirt add up
+  const productLines = new Map<string, {quantity: number; lineIds: string[]}>();
+
+  for (const line of input.cart.lines) {
+    // custom products (e.g. draft order lines) have no product to count against
+    if (line.merchandise.__typename !== 'ProductVariant') {
+      continue;
     }
-    return maxLine;
-  }, input.cart.lines[0]);
-
-  const operations = [];
-
-  if (hasOrderDiscountClass) {
-    operations.push({
-      orderDiscountsAdd: {
-        candidates: [
-          {
-            message: '10% OFF ORDER',
-            targets: [
-              {
-                orderSubtotal: {
-                  excludedCartLineIds: [],
-                },
-              },
-            ],
-            value: {
-              percentage: {
-                value: 10,
-              },
-            },
-          },
-        ],
-        selectionStrategy: OrderDiscountSelectionStrategy.First,
-      },
-    });
+
+    const {id: productId, inAnyCollection, hasAnyTag} =
+      line.merchandise.product;
+
+    // targeting narrows the tiers, products with their own percentage keep it
+    if (
+      isTargeted &&
+      !inAnyCollection &&
+      !hasAnyTag &&
+      !productPercentages.has(productId)
+    ) {
+      continue;
+    }
+
+    const product = productLines.get(productId) ?? {quantity: 0, lineIds: []};
+
+    product.quantity += line.quantity;
+    product.lineIds.push(line.id);
+    productLines.set(productId, product);
   }
 
-  if (hasProductDiscountClass) {
-    operations.push({
-      productDiscountsAdd: {
-        candidates: [
-          {
-            message: '20% OFF PRODUCT',
-            targets: [
-              {
-                cartLine: {
-                  id: maxCartLine.id,
-                },
-              },
-            ],
-            value: {
-              percentage: {
-                value: 20,
-              },
-            },
-          },
-        ],
-        selectionStrategy: ProductDiscountSelectionStrategy.First,
+  const candidates: ProductDiscountCandidate[] = [];
+
+  for (const [productId, {quantity, lineIds}] of productLines) {
+    // a product with its own percentage gets exactly that, at any quantity,
+    // otherwise tiers are sorted highest first, so the first match is the best one
+    const discount =
+      productPercentages.get(productId) ??
+      config.tiers.find((tier) => quantity >= tier.minQuantity);
+
+    if (!discount) {
+      continue;
+    }
+
+    candidates.push({
+      message: discount.message,
+      targets: lineIds.map((id) => ({cartLine: {id}})),
+      value: {
+        percentage: {
+          value: discount.percentage,
+        },
       },
     });
   }
 
+  if (!candidates.length) {
+    return {operations: []};
+  }
+
   return {
-    operations,
+    operations: [
+      {
+        productDiscountsAdd: {
+          candidates,
+          // every product that reached a tier gets its own discount
+          selectionStrategy: ProductDiscountSelectionStrategy.All,
+        },
+      },
+    ],
   };
-}
\ No newline at end of file
+}
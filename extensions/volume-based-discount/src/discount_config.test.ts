@@ -0,0 +1,119 @@
+import {describe, it, expect} from "vitest";
+
+import {parseDiscountConfig} from "./discount_config";
+
+describe("parseDiscountConfig", () => {
+  it("reads tiers (highest quantity first) and the delivery discount", () => {
+    expect(
+      parseDiscountConfig({
+        tiers: [
+          {minQuantity: 3, percentage: 5},
+          {minQuantity: 12, percentage: 15, message: "Case deal"},
+        ],
+        delivery: {percentage: 100},
+      }),
+    ).toEqual({
+      tiers: [
+        {minQuantity: 12, percentage: 15, message: "Case deal"},
+        {minQuantity: 3, percentage: 5, message: "BUY 3+, SAVE 5%"},
+      ],
+      delivery: {percentage: 100, message: "FREE DELIVERY"},
+      products: [],
+      collectionIds: [],
+      tags: [],
+    });
+  });
+
+  it("reads per-product percentages", () => {
+    expect(
+      parseDiscountConfig({
+        products: [
+          {productId: "gid://shopify/Product/1", percentage: 15},
+          {
+            productId: "gid://shopify/Product/2",
+            percentage: 30,
+            message: "Clearance",
+          },
+        ],
+      }),
+    ).toEqual({
+      tiers: [],
+      delivery: null,
+      products: [
+        {productId: "gid://shopify/Product/1", percentage: 15, message: "15% OFF"},
+        {productId: "gid://shopify/Product/2", percentage: 30, message: "Clearance"},
+      ],
+      collectionIds: [],
+      tags: [],
+    });
+  });
+
+  it("reads the collections and tags the tiers are limited to", () => {
+    expect(
+      parseDiscountConfig({
+        tiers: [{minQuantity: 3, percentage: 5}],
+        collectionIds: ["gid://shopify/Collection/1"],
+        tags: ["bulk", "wholesale"],
+      }),
+    ).toMatchObject({
+      collectionIds: ["gid://shopify/Collection/1"],
+      tags: ["bulk", "wholesale"],
+    });
+  });
+
+  it("treats missing sections as no discount", () => {
+    expect(parseDiscountConfig({})).toEqual({
+      tiers: [],
+      delivery: null,
+      products: [],
+      collectionIds: [],
+      tags: [],
+    });
+  });
+
+  it("ignores keys it doesn't know", () => {
+    expect(parseDiscountConfig({version: 2, delivery: {percentage: 25}})).toEqual(
+      {
+        tiers: [],
+        delivery: {percentage: 25, message: "25% OFF DELIVERY"},
+        products: [],
+        collectionIds: [],
+        tags: [],
+      },
+    );
+  });
+
+  it.each([
+    ["a missing metafield", undefined],
+    ["a non-object value", "tiers"],
+    ["an array", []],
+    ["tiers that aren't a list", {tiers: {minQuantity: 3, percentage: 5}}],
+    ["a zero quantity", {tiers: [{minQuantity: 0, percentage: 5}]}],
+    ["a fractional quantity", {tiers: [{minQuantity: 2.5, percentage: 5}]}],
+    ["a quantity as text", {tiers: [{minQuantity: "3", percentage: 5}]}],
+    ["a percentage over 100", {tiers: [{minQuantity: 3, percentage: 101}]}],
+    ["a zero percentage", {delivery: {percentage: 0}}],
+    ["an empty message", {delivery: {percentage: 100, message: " "}}],
+    ["products that aren't a list", {products: "gid://shopify/Product/1"}],
+    [
+      "a product id that isn't a product GID",
+      {products: [{productId: "gid://shopify/ProductVariant/1", percentage: 10}]},
+    ],
+    [
+      "a product percentage over 100",
+      {products: [{productId: "gid://shopify/Product/1", percentage: 120}]},
+    ],
+    [
+      "collections that aren't a list",
+      {collectionIds: "gid://shopify/Collection/1"},
+    ],
+    [
+      "a collection id that isn't a collection GID",
+      {collectionIds: ["gid://shopify/Product/1"]},
+    ],
+    ["an empty tag", {tags: ["bulk", " "]}],
+    ["a tag that isn't text", {tags: [3]}],
+  ])("returns null for %s", (_, jsonValue) => {
+    expect(parseDiscountConfig(jsonValue)).toBeNull();
+  });
+});
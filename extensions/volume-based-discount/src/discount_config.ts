@@ -0,0 +1,213 @@
+// The discount's settings live in its `$app:volume-based-discount`
+// `function-configuration` metafield, which both input queries read.
+// The admin app writes it as JSON, e.g.
+//
+// {
+//   "tiers": [{"minQuantity": 3, "percentage": 5}, {"minQuantity": 6, "percentage": 10}],
+//   "delivery": {"percentage": 100, "message": "FREE DELIVERY"},
+//   "products": [{"productId": "gid://shopify/Product/1", "percentage": 15, "message": "Launch offer"}],
+//   "collectionIds": ["gid://shopify/Collection/1"],
+//   "tags": ["bulk"]
+// }
+//
+// collectionIds and tags are also the cart lines query's $collectionIds and
+// $tags variables (see [extensions.input.variables] in shopify.extension.toml),
+// so each product line arrives with inAnyCollection / hasAnyTag answered.
+
+// one step of the volume discount: buying at least minQuantity of a product
+// takes percentage off all of that product's lines
+export type VolumeTier = {
+  minQuantity: number;
+  percentage: number;
+  message: string;
+};
+
+// a fixed percentage off one product, whatever the quantity
+// (synced from the app's ProductDiscount rows)
+export type ProductPercentage = {
+  productId: string;
+  percentage: number;
+  message: string;
+};
+
+export type DeliveryDiscount = {
+  percentage: number;
+  message: string;
+};
+
+export type DiscountConfig = {
+  tiers: VolumeTier[]; // highest minQuantity first, empty = no product discount
+  delivery: DeliveryDiscount | null; // null = no delivery discount
+  products: ProductPercentage[]; // these products use their own percentage instead of the tiers
+  // when either list is set, the tiers only apply to products in one of the
+  // collections or with one of the tags
+  collectionIds: string[];
+  tags: string[];
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPercentage(value: unknown): value is number {
+  return typeof value === 'number' && value > 0 && value <= 100;
+}
+
+// a missing message is fine, a message that isn't text is a mistake
+function getMessage(value: unknown, fallback: string): string | null {
+  if (value === undefined) {
+    return fallback;
+  }
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parseTier(value: unknown): VolumeTier | null {
+  if (
+    !isRecord(value) ||
+    !Number.isInteger(value.minQuantity) ||
+    (value.minQuantity as number) < 1 ||
+    !isPercentage(value.percentage)
+  ) {
+    return null;
+  }
+
+  const minQuantity = value.minQuantity as number;
+  const message = getMessage(
+    value.message,
+    `BUY ${minQuantity}+, SAVE ${value.percentage}%`,
+  );
+
+  return message ? {minQuantity, percentage: value.percentage, message} : null;
+}
+
+function parseProductPercentage(value: unknown): ProductPercentage | null {
+  if (
+    !isRecord(value) ||
+    typeof value.productId !== 'string' ||
+    !value.productId.startsWith('gid://shopify/Product/') ||
+    !isPercentage(value.percentage)
+  ) {
+    return null;
+  }
+
+  const message = getMessage(value.message, `${value.percentage}% OFF`);
+
+  return message
+    ? {productId: value.productId, percentage: value.percentage, message}
+    : null;
+}
+
+// a list of non-empty strings, or null when it's anything else
+function parseStringList(
+  value: unknown,
+  isValid: (item: string) => boolean,
+): string[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const items: string[] = [];
+
+  for (const item of value) {
+    if (typeof item !== 'string' || !isValid(item)) {
+      return null;
+    }
+    items.push(item);
+  }
+
+  return items;
+}
+
+function parseDelivery(value: unknown): DeliveryDiscount | null {
+  if (!isRecord(value) || !isPercentage(value.percentage)) {
+    return null;
+  }
+
+  const message = getMessage(
+    value.message,
+    value.percentage === 100 ? 'FREE DELIVERY' : `${value.percentage}% OFF DELIVERY`,
+  );
+
+  return message ? {percentage: value.percentage, message} : null;
+}
+
+// Turns the metafield's jsonValue into a DiscountConfig.
+// Returns null when the metafield is missing or anything in it is malformed,
+// callers then apply no discount at all rather than a half-read one.
+// Keys this version doesn't know about are ignored.
+export function parseDiscountConfig(jsonValue: unknown): DiscountConfig | null {
+  if (!isRecord(jsonValue)) {
+    return null;
+  }
+
+  const tiers: VolumeTier[] = [];
+
+  if (jsonValue.tiers !== undefined) {
+    if (!Array.isArray(jsonValue.tiers)) {
+      return null;
+    }
+
+    for (const value of jsonValue.tiers) {
+      const tier = parseTier(value);
+      if (!tier) {
+        return null;
+      }
+      tiers.push(tier);
+    }
+  }
+
+  let delivery: DeliveryDiscount | null = null;
+
+  if (jsonValue.delivery !== undefined && jsonValue.delivery !== null) {
+    delivery = parseDelivery(jsonValue.delivery);
+    if (!delivery) {
+      return null;
+    }
+  }
+
+  const products: ProductPercentage[] = [];
+
+  if (jsonValue.products !== undefined) {
+    if (!Array.isArray(jsonValue.products)) {
+      return null;
+    }
+
+    for (const value of jsonValue.products) {
+      const product = parseProductPercentage(value);
+      if (!product) {
+        return null;
+      }
+      products.push(product);
+    }
+  }
+
+  let collectionIds: string[] = [];
+
+  if (jsonValue.collectionIds !== undefined) {
+    const ids = parseStringList(jsonValue.collectionIds, (id) =>
+      id.startsWith('gid://shopify/Collection/'),
+    );
+    if (!ids) {
+      return null;
+    }
+    collectionIds = ids;
+  }
+
+  let tags: string[] = [];
+
+  if (jsonValue.tags !== undefined) {
+    const list = parseStringList(jsonValue.tags, (tag) => tag.trim() !== '');
+    if (!list) {
+      return null;
+    }
+    tags = list;
+  }
+
+  return {
+    tiers: tiers.sort((a, b) => b.minQuantity - a.minQuantity),
+    delivery,
+    products,
+    collectionIds,
+    tags,
+  };
+}
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "QRScan" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "qrCodeId" INTEGER NOT NULL,
+    "shop" TEXT NOT NULL,
+    "userAgent" TEXT,
+    "referer" TEXT,
+    "ipHash" TEXT,
+    "country" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "QRScan_qrCodeId_fkey" FOREIGN KEY ("qrCodeId") REFERENCES "QRCode" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "QRScan_qrCodeId_createdAt_idx" ON "QRScan"("qrCodeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "QRScan_shop_createdAt_idx" ON "QRScan"("shop", "createdAt");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "QRCode" ADD COLUMN "collectionHandle" TEXT;
+ALTER TABLE "QRCode" ADD COLUMN "customUrl" TEXT;
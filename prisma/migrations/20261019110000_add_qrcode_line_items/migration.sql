@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "QRCode" ADD COLUMN "cartAttributes" TEXT;
+ALTER TABLE "QRCode" ADD COLUMN "cartNote" TEXT;
+ALTER TABLE "QRCode" ADD COLUMN "discountCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "QRCodeLineItem" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "qrCodeId" INTEGER NOT NULL,
+    "productVariantId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    CONSTRAINT "QRCodeLineItem_qrCodeId_fkey" FOREIGN KEY ("qrCodeId") REFERENCES "QRCode" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "QRCodeLineItem_qrCodeId_idx" ON "QRCodeLineItem"("qrCodeId");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "QRCode" ADD COLUMN "backgroundColor" TEXT NOT NULL DEFAULT '#ffffff';
+ALTER TABLE "QRCode" ADD COLUMN "errorCorrection" TEXT NOT NULL DEFAULT 'M';
+ALTER TABLE "QRCode" ADD COLUMN "foregroundColor" TEXT NOT NULL DEFAULT '#000000';
+ALTER TABLE "QRCode" ADD COLUMN "imageSize" INTEGER NOT NULL DEFAULT 512;
+ALTER TABLE "QRCode" ADD COLUMN "margin" INTEGER NOT NULL DEFAULT 4;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "QRCode" ADD COLUMN "showLogo" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ShopBranding" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "logo" BLOB NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "QRCode" ADD COLUMN "productTitle" TEXT;
+ALTER TABLE "QRCode" ADD COLUMN "productImage" TEXT;
+ALTER TABLE "QRCode" ADD COLUMN "variantTitle" TEXT;
+ALTER TABLE "QRCode" ADD COLUMN "price" TEXT;
+ALTER TABLE "QRCode" ADD COLUMN "productSyncedAt" DATETIME;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "QRCode" ADD COLUMN "productDeleted" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "QRCode" ADD COLUMN "fallbackType" TEXT NOT NULL DEFAULT 'home';
+ALTER TABLE "QRCode" ADD COLUMN "fallbackCollection" TEXT;
+ALTER TABLE "QRCode" ADD COLUMN "fallbackVariantId" TEXT;
+ALTER TABLE "QRCode" ADD COLUMN "fallbackProductHandle" TEXT;
@@ -0,0 +1,45 @@
+-- RedefineTables
+-- existing QRs get a random 10 character hex slug (new ones get base62 slugs from the app)
+-- and keep their old numeric /qrcodes/:id/scan URL, because those codes are already printed
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_QRCode" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "slug" TEXT NOT NULL,
+    "legacyScanUrl" BOOLEAN NOT NULL DEFAULT false,
+    "title" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "productHandle" TEXT NOT NULL,
+    "productVariantId" TEXT NOT NULL,
+    "productTitle" TEXT,
+    "productImage" TEXT,
+    "variantTitle" TEXT,
+    "price" TEXT,
+    "productSyncedAt" DATETIME,
+    "productDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "fallbackType" TEXT NOT NULL DEFAULT 'home',
+    "fallbackCollection" TEXT,
+    "fallbackVariantId" TEXT,
+    "fallbackProductHandle" TEXT,
+    "destination" TEXT NOT NULL,
+    "collectionHandle" TEXT,
+    "customUrl" TEXT,
+    "discountCode" TEXT,
+    "cartNote" TEXT,
+    "cartAttributes" TEXT,
+    "imageSize" INTEGER NOT NULL DEFAULT 512,
+    "foregroundColor" TEXT NOT NULL DEFAULT '#000000',
+    "backgroundColor" TEXT NOT NULL DEFAULT '#ffffff',
+    "margin" INTEGER NOT NULL DEFAULT 4,
+    "errorCorrection" TEXT NOT NULL DEFAULT 'M',
+    "showLogo" BOOLEAN NOT NULL DEFAULT false,
+    "scans" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "new_QRCode" ("id", "slug", "legacyScanUrl", "title", "shop", "productId", "productHandle", "productVariantId", "productTitle", "productImage", "variantTitle", "price", "productSyncedAt", "productDeleted", "fallbackType", "fallbackCollection", "fallbackVariantId", "fallbackProductHandle", "destination", "collectionHandle", "customUrl", "discountCode", "cartNote", "cartAttributes", "imageSize", "foregroundColor", "backgroundColor", "margin", "errorCorrection", "showLogo", "scans", "createdAt") SELECT "id", lower(hex(randomblob(5))), true, "title", "shop", "productId", "productHandle", "productVariantId", "productTitle", "productImage", "variantTitle", "price", "productSyncedAt", "productDeleted", "fallbackType", "fallbackCollection", "fallbackVariantId", "fallbackProductHandle", "destination", "collectionHandle", "customUrl", "discountCode", "cartNote", "cartAttributes", "imageSize", "foregroundColor", "backgroundColor", "margin", "errorCorrection", "showLogo", "scans", "createdAt" FROM "QRCode";
+DROP TABLE "QRCode";
+ALTER TABLE "new_QRCode" RENAME TO "QRCode";
+CREATE UNIQUE INDEX "QRCode_slug_key" ON "QRCode"("slug");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
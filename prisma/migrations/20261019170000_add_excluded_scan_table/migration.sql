@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ExcludedScan" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "qrCodeId" INTEGER NOT NULL,
+    "shop" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "userAgent" TEXT,
+    "referer" TEXT,
+    "ipHash" TEXT,
+    "country" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ExcludedScan_qrCodeId_fkey" FOREIGN KEY ("qrCodeId") REFERENCES "QRCode" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ExcludedScan_qrCodeId_createdAt_idx" ON "ExcludedScan"("qrCodeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ExcludedScan_shop_createdAt_idx" ON "ExcludedScan"("shop", "createdAt");
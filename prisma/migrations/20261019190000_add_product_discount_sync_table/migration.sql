@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "ProductDiscountSync" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "discountId" TEXT,
+    "pendingSince" DATETIME,
+    "lastError" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);